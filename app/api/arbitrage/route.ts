@@ -0,0 +1,78 @@
+// API Route: /api/arbitrage
+// Cross-venue funding spreads and ranked delta-neutral opportunities
+// Set EXCHANGE_FIXTURES_DIR=fixtures/exchanges to serve recorded venue responses offline
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SUPPORTED_VENUES, VenueFees, VenueId, getCrossVenueFunding, getExchangeAdapters } from '@/lib/exchanges';
+import { buildSpreadTables, rankOpportunities } from '@/lib/arbitrage';
+import { getWatchlist } from '@/lib/instrument-store';
+import { exchangeErrorCode, exchangeErrorStatus } from '@/lib/http-client';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_HOLD_HOURS = 7 * 24;
+
+/**
+ * GET /api/arbitrage?symbols=BTC,ETH&venues=kraken,binance&hold=168&minNet=5
+ * symbols: defaults to the watchlist
+ * hold: expected holding period in hours - fees are amortized over it
+ * minNet: minimum net annualized return (percent) for the ranked list
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const venues = (params.get('venues')?.split(',').map(v => v.trim().toLowerCase()) ?? SUPPORTED_VENUES) as VenueId[];
+    const holdHours = params.get('hold') ? Number(params.get('hold')) : DEFAULT_HOLD_HOURS;
+    const minNetAnnualized = params.get('minNet') ? Number(params.get('minNet')) : 0;
+
+    const unsupported = venues.filter(v => !SUPPORTED_VENUES.includes(v));
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported venue(s): ${unsupported.join(', ')}. Supported: ${SUPPORTED_VENUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(holdHours > 0) || !Number.isFinite(minNetAnnualized)) {
+      return NextResponse.json(
+        { success: false, error: 'hold must be a positive number of hours and minNet a number' },
+        { status: 400 }
+      );
+    }
+
+    const adapters = getExchangeAdapters(venues);
+
+    const symbols = params.get('symbols')?.split(',').map(s => s.trim().toUpperCase()) ?? getWatchlist();
+
+    const { funding, errors } = await getCrossVenueFunding(adapters, symbols);
+
+    const fees: Partial<Record<VenueId, VenueFees>> = {};
+    for (const adapter of adapters) fees[adapter.id] = adapter.fees;
+
+    const spreads = buildSpreadTables(funding, fees, holdHours);
+    const opportunities = rankOpportunities(spreads, minNetAnnualized);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      holdHours,
+      venues: adapters.map(a => ({ id: a.id, name: a.name, fees: a.fees })),
+      opportunities,
+      spreads,
+      errors: errors.length > 0 ? errors : undefined,
+      source: process.env.EXCHANGE_FIXTURES_DIR ? 'fixtures' : 'live',
+    });
+  } catch (error) {
+    console.error('Arbitrage API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compare funding',
+        code: exchangeErrorCode(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: exchangeErrorStatus(error) }
+    );
+  }
+}
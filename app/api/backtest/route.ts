@@ -0,0 +1,152 @@
+// API Route: /api/backtest
+// Replays a supplied funding + price history through the strategy - fully offline
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runBacktest, compareEstimators, parseBacktestCsv, BacktestInputError, BacktestPeriod, BacktestReport } from '@/lib/backtest';
+import { RISK_PROFILES, RiskMode } from '@/lib/analysis';
+import { ZScoreEstimator, ZSCORE_ESTIMATORS } from '@/lib/estimators';
+import { TrendFilterMode, TREND_FILTER_MODES } from '@/lib/strategy';
+import { SizingMethod, SIZING_METHODS } from '@/lib/risk';
+import { createExitConfig, exitConfigError, ExitConfig } from '@/lib/exits';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface BacktestRequest {
+  symbol: string;
+  periods?: BacktestPeriod[];
+  csv?: string;               // Alternative to periods: CSV fixture contents
+  capital?: number;
+  riskModes?: RiskMode[];
+  lookbackPeriods?: number;
+  feeRate?: number;
+  estimator?: ZScoreEstimator;
+  compareEstimators?: boolean;    // One report per estimator instead of a single report
+  trendFilter?: TrendFilterMode;  // block, downgrade or off - fades against a strong trend
+  sizingMethod?: SizingMethod;    // Overrides every risk profile's sizing method
+  windowPeriods?: number[];       // Window agreement windows, e.g. [24, 90, 270] - off by default
+  exits?: Partial<ExitConfig>;    // Merged into the default exit rules
+  includeTrades?: boolean;    // Trades and equity curve can be large - off by default
+}
+
+/**
+ * POST /api/backtest
+ * Run the backtest for each requested risk mode
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: BacktestRequest = await request.json();
+    const { symbol, capital, riskModes, lookbackPeriods, feeRate, estimator, trendFilter, sizingMethod, windowPeriods, exits, includeTrades = false } = body;
+
+    if (!symbol) {
+      return NextResponse.json(
+        { success: false, error: 'Symbol is required' },
+        { status: 400 }
+      );
+    }
+
+    const periods = body.csv ? parseBacktestCsv(body.csv) : body.periods;
+    if (!Array.isArray(periods) || periods.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Provide periods or csv with timestamp, price, fundingRate, relativeFundingRate' },
+        { status: 400 }
+      );
+    }
+
+    if (riskModes && riskModes.some(mode => !(mode in RISK_PROFILES))) {
+      return NextResponse.json(
+        { success: false, error: `Risk modes must be one of: ${Object.keys(RISK_PROFILES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (capital !== undefined && !(typeof capital === 'number' && capital > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Capital must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (lookbackPeriods !== undefined && !(Number.isInteger(lookbackPeriods) && lookbackPeriods >= 2)) {
+      return NextResponse.json(
+        { success: false, error: 'lookbackPeriods must be an integer of at least 2' },
+        { status: 400 }
+      );
+    }
+
+    if (estimator !== undefined && !ZSCORE_ESTIMATORS.includes(estimator)) {
+      return NextResponse.json(
+        { success: false, error: `Estimator must be one of: ${ZSCORE_ESTIMATORS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (trendFilter !== undefined && !TREND_FILTER_MODES.includes(trendFilter)) {
+      return NextResponse.json(
+        { success: false, error: `Trend filter must be one of: ${TREND_FILTER_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (sizingMethod !== undefined && !SIZING_METHODS.includes(sizingMethod)) {
+      return NextResponse.json(
+        { success: false, error: `Sizing method must be one of: ${SIZING_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (windowPeriods !== undefined && !(Array.isArray(windowPeriods) && windowPeriods.every(w => Number.isInteger(w) && w >= 2))) {
+      return NextResponse.json(
+        { success: false, error: 'windowPeriods must be an array of integers of at least 2' },
+        { status: 400 }
+      );
+    }
+
+    const exitError = exits !== undefined ? exitConfigError(exits) : null;
+    if (exitError) {
+      return NextResponse.json(
+        { success: false, error: exitError },
+        { status: 400 }
+      );
+    }
+
+    const config = {
+      symbol: symbol.toUpperCase(),
+      exits: createExitConfig(exits),
+      ...(capital !== undefined && { capital }),
+      ...(riskModes && { riskModes }),
+      ...(lookbackPeriods !== undefined && { lookbackPeriods }),
+      ...(feeRate !== undefined && { feeRate }),
+      ...(estimator !== undefined && { estimator }),
+      ...(trendFilter !== undefined && { trendFilter }),
+      ...(sizingMethod !== undefined && { sizingMethod }),
+      ...(windowPeriods !== undefined && { windowPeriods }),
+    };
+    const summarize = (report: BacktestReport) => ({
+      ...report,
+      results: report.results.map(result => includeTrades
+        ? result
+        : { riskMode: result.riskMode, metrics: result.metrics }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      data: body.compareEstimators
+        ? compareEstimators(periods, config).map(summarize)
+        : summarize(runBacktest(periods, config)),
+    });
+  } catch (error) {
+    console.error('Backtest API error:', error);
+    // Unparseable body, bad fixture rows or too few periods for the lookback
+    const badInput = error instanceof BacktestInputError || error instanceof SyntaxError;
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Backtest failed',
+        timestamp: new Date().toISOString(),
+      },
+      { status: badInput ? 400 : 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+// API Route: /api/brackets
+// Reconciles stop loss / take profit brackets and lists them
+// Poll this (e.g. from a cron job) so live legs are resized and OCO-cancelled promptly
+
+import { NextResponse } from 'next/server';
+import { getTickers } from '@/lib/kraken';
+import { getKrakenCredentials } from '@/lib/kraken-private';
+import { updateLedger, markToMarket } from '@/lib/paper-broker';
+import { updateLiveBrackets, syncLiveBrackets } from '@/lib/live-brackets';
+import { exchangeErrorCode, exchangeErrorStatus } from '@/lib/http-client';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/brackets
+ * Paper: mark to market (triggers legs) then reconcile
+ * Live: reconcile against Kraken open orders and fills
+ */
+export async function GET() {
+  try {
+    const credentials = getKrakenCredentials();
+
+    if (credentials) {
+      const { brackets, errors } = await updateLiveBrackets(async current => ({
+        brackets: current,
+        errors: await syncLiveBrackets(current, credentials),
+      }));
+
+      return NextResponse.json({
+        success: true,
+        mode: 'live',
+        timestamp: new Date().toISOString(),
+        brackets: brackets.slice().reverse(),
+        errors: errors.length > 0 ? errors : undefined,
+      });
+    }
+
+    const ledger = await updateLedger(async current => {
+      markToMarket(current, await getTickers());
+      return current;
+    });
+
+    return NextResponse.json({
+      success: true,
+      mode: 'paper',
+      timestamp: new Date().toISOString(),
+      brackets: ledger.brackets.slice().reverse(),
+    });
+  } catch (error) {
+    console.error('Brackets API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reconcile brackets',
+        code: exchangeErrorCode(error),
+        timestamp: new Date().toISOString(),
+      },
+      { status: exchangeErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,473 @@
+// API Route: /api/execute
+// Paper trading by default - live Kraken Futures orders when API keys are configured
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTickers } from '@/lib/kraken';
+import { validateOrder } from '@/lib/instruments';
+import { getInstrument } from '@/lib/instrument-store';
+import { exchangeErrorCode, exchangeErrorStatus } from '@/lib/http-client';
+import {
+  getKrakenCredentials,
+  sendOrder,
+  getOpenOrders,
+  getOpenPositions,
+  getAccountEquity,
+  KrakenOrderError,
+  OrderType,
+} from '@/lib/kraken-private';
+import {
+  updateLedger,
+  placePaperOrder,
+  accrueLedgerFunding,
+  markToMarket,
+  summarizeLedger,
+  PaperSignalContext,
+} from '@/lib/paper-broker';
+import { Bracket, BracketRequest, validateBracket } from '@/lib/brackets';
+import { updateLiveBrackets, createLiveBracket, syncLiveBrackets } from '@/lib/live-brackets';
+import { RiskMode } from '@/lib/analysis';
+import {
+  PORTFOLIO_LIMITS,
+  RiskDecision,
+  applyPortfolioRisk,
+  markPricesBySymbol,
+  paperExposures,
+  liveExposures,
+  reducesExposure,
+  ExposureEntry,
+} from '@/lib/portfolio-risk';
+import {
+  CircuitBreakerState,
+  TradingMode,
+  checkCircuitBreaker,
+  getCircuitBreakerState,
+  getCurrentEquity,
+} from '@/lib/circuit-breaker';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface TradeRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  size: number;
+  leverage?: number;
+  orderType?: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  reduceOnly?: boolean;
+  signal?: PaperSignalContext;  // Signal behind the trade, recorded for calibration
+  bracket?: BracketRequest;     // Reduce-only stop loss + take profit legs
+  riskMode?: RiskMode;          // Portfolio limits to enforce (default MEDIUM)
+  allowScaleDown?: boolean;     // Shrink orders that breach a limit instead of rejecting (default true)
+}
+
+/**
+ * Rejection for risk-increasing orders while trading is halted
+ * Returns null when the order may go ahead
+ */
+function haltRejection(
+  breaker: CircuitBreakerState,
+  mode: TradingMode,
+  order: { symbol: string; side: 'buy' | 'sell'; size: number; price: number; reduceOnly?: boolean },
+  exposures: ExposureEntry[]
+) {
+  if (breaker.status !== 'HALTED') return null;
+  const reducing = reducesExposure(
+    { symbol: order.symbol, side: order.side, notional: order.size * order.price, reduceOnly: order.reduceOnly },
+    exposures
+  );
+  if (reducing) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      mode,
+      error: `Trading halted: ${breaker.haltReason?.message ?? 'circuit breaker tripped'}`,
+      halt: breaker,
+    },
+    { status: 423 }
+  );
+}
+
+function riskSummary(requestedSize: number, decision: RiskDecision, riskMode: RiskMode) {
+  return {
+    riskMode,
+    requestedSize,
+    approvedSize: decision.size,
+    scaled: decision.check.scaled,
+    bindingLimit: decision.check.bindingLimit ?? null,
+  };
+}
+
+/**
+ * POST /api/execute
+ * Execute a trade - paper by default, live when API keys are configured
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: TradeRequest = await request.json();
+    const {
+      symbol,
+      side,
+      size: requestedSize,
+      leverage = 1,
+      orderType = 'mkt',
+      limitPrice,
+      stopPrice,
+      reduceOnly,
+      signal,
+      bracket,
+      riskMode = 'MEDIUM',
+      allowScaleDown = true,
+    } = body;
+
+    // Validate symbol against the instrument registry
+    const instrument = typeof symbol === 'string' ? await getInstrument(symbol) : undefined;
+    if (!instrument) {
+      return NextResponse.json(
+        { success: false, error: `Unknown symbol: ${symbol}` },
+        { status: 400 }
+      );
+    }
+    const krakenSymbol = instrument.krakenSymbol;
+
+    // Validate side
+    if (!['buy', 'sell'].includes(side)) {
+      return NextResponse.json(
+        { success: false, error: 'Side must be "buy" or "sell"' },
+        { status: 400 }
+      );
+    }
+
+    // Validate size
+    if (typeof requestedSize !== 'number' || requestedSize <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Size must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (!PORTFOLIO_LIMITS[riskMode]) {
+      return NextResponse.json(
+        { success: false, error: `Unknown risk mode: ${riskMode}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate order type and prices
+    if (!['mkt', 'lmt', 'stp'].includes(orderType)) {
+      return NextResponse.json(
+        { success: false, error: 'Order type must be "mkt", "lmt" or "stp"' },
+        { status: 400 }
+      );
+    }
+
+    if (orderType === 'lmt' && !(typeof limitPrice === 'number' && limitPrice > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Limit orders require a positive limitPrice' },
+        { status: 400 }
+      );
+    }
+
+    if (orderType === 'stp' && !(typeof stopPrice === 'number' && stopPrice > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Stop orders require a positive stopPrice' },
+        { status: 400 }
+      );
+    }
+
+    if (bracket && reduceOnly) {
+      return NextResponse.json(
+        { success: false, error: 'Brackets cannot be attached to reduce-only orders' },
+        { status: 400 }
+      );
+    }
+    // Shape of the bracket first - which side of the entry it sits is checked once the mark price is known
+    if (bracket) {
+      const bracketError = validateBracket(side, bracket);
+      if (bracketError) {
+        return NextResponse.json(
+          { success: false, error: bracketError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Size and prices must fit the instrument's lot and tick sizes
+    const violations = validateOrder(instrument, {
+      size: requestedSize,
+      leverage,
+      limitPrice,
+      stopPrice,
+      prices: bracket ? [bracket.stopLossPrice, bracket.takeProfitPrice] : [],
+    });
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { success: false, error: violations.map(v => v.message).join('; '), violations },
+        { status: 400 }
+      );
+    }
+
+    // Mark prices value the book and the order for the portfolio risk check
+    const tickers = await getTickers();
+    const markPrices = markPricesBySymbol(tickers);
+    const markPrice = markPrices[symbol.toUpperCase()];
+    if (!markPrice) {
+      return NextResponse.json(
+        { success: false, error: `No mark price available for ${symbol}` },
+        { status: 502 }
+      );
+    }
+    const orderPrice = limitPrice ?? stopPrice ?? markPrice;
+
+    // Same check for paper and live - market orders are checked against the mark price
+    if (bracket) {
+      const bracketError = validateBracket(side, bracket, orderPrice);
+      if (bracketError) {
+        return NextResponse.json(
+          { success: false, error: bracketError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Check if live trading is enabled (API keys present)
+    const credentials = getKrakenCredentials();
+
+    if (credentials) {
+      try {
+        const [equity, positions, openOrders] = await Promise.all([
+          getAccountEquity(credentials),
+          getOpenPositions(credentials),
+          getOpenOrders(credentials),
+        ]);
+        const exposures = liveExposures(positions, openOrders, markPrices);
+        const breaker = await checkCircuitBreaker('live', equity);
+        const halted = haltRejection(
+          breaker, 'live', { symbol, side, size: requestedSize, price: orderPrice, reduceOnly }, exposures
+        );
+        if (halted) return halted;
+
+        const decision = applyPortfolioRisk(
+          { symbol, side, size: requestedSize, price: orderPrice, reduceOnly },
+          { equity, exposures },
+          riskMode,
+          allowScaleDown,
+          instrument.lotSize
+        );
+        if (!decision.check.approved) {
+          return NextResponse.json(
+            {
+              success: false,
+              mode: 'live',
+              error: decision.check.rejection!.message,
+              rejection: decision.check.rejection,
+            },
+            { status: 422 }
+          );
+        }
+        const size = decision.size;
+
+        const placed = await sendOrder({
+          orderType,
+          symbol: krakenSymbol,
+          side,
+          size,
+          limitPrice,
+          stopPrice,
+          reduceOnly,
+        }, credentials);
+
+        // Attach protective legs - sized to whatever the entry has filled so far
+        // The entry is already on the book, so a leg failure is reported, not turned into a rejection
+        let liveBracket: Bracket | null = null;
+        let bracketError: string | undefined;
+        if (bracket) {
+          try {
+            const created = createLiveBracket({
+              orderId: placed.orderId,
+              symbol: symbol.toUpperCase(),
+              krakenSymbol: krakenSymbol,
+              side,
+            }, bracket);
+            liveBracket = created;
+            bracketError = await updateLiveBrackets(async brackets => {
+              // Keep the new bracket even when the sync fails, so the next poll places its legs
+              brackets.push(created);
+              try {
+                const errors = await syncLiveBrackets(brackets, credentials, { [placed.orderId]: placed.filledSize });
+                return errors.find(e => e.bracketId === created.bracketId)?.message;
+              } catch (error) {
+                console.error('Bracket sync error:', error);
+                return error instanceof Error ? error.message : 'Unknown error';
+              }
+            });
+          } catch (error) {
+            console.error('Bracket placement error:', error);
+            bracketError = error instanceof Error ? error.message : 'Unknown error';
+          }
+        }
+
+        return NextResponse.json({
+          success: true,
+          mode: 'live',
+          order: {
+            orderId: placed.orderId,
+            symbol: krakenSymbol,
+            side,
+            size,
+            leverage,
+            orderType,
+            status: placed.status,
+            filledSize: placed.filledSize,
+            averagePrice: placed.averagePrice,
+            timestamp: placed.receivedTime,
+          },
+          bracket: liveBracket,
+          bracketError,
+          risk: riskSummary(requestedSize, decision, riskMode),
+          message: (decision.check.scaled
+            ? `Live order placed on Kraken Futures, scaled down to ${size} by the ${decision.check.bindingLimit} limit`
+            : 'Live order placed on Kraken Futures') +
+            (bracketError ? ` - bracket legs not fully placed (${bracketError}), GET /api/brackets retries them` : ''),
+        });
+      } catch (error) {
+        if (error instanceof KrakenOrderError) {
+          return NextResponse.json(
+            {
+              success: false,
+              mode: 'live',
+              error: error.message,
+              rejection: { status: error.status, orderId: error.orderId },
+            },
+            { status: 422 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Paper trading - fill against the current mark price and record in the ledger
+
+    // The whole check-and-fill runs under the ledger lock
+    return await updateLedger(async ledger => {
+      // Settle funding on the current size before the fill changes it
+      await accrueLedgerFunding(ledger);
+      markToMarket(ledger, tickers);
+
+      const equity = summarizeLedger(ledger).equity;
+      const exposures = paperExposures(ledger, markPrices);
+      const breaker = await checkCircuitBreaker('paper', equity);
+      const halted = haltRejection(
+        breaker, 'paper', { symbol, side, size: requestedSize, price: orderPrice, reduceOnly }, exposures
+      );
+      if (halted) return halted;
+
+      const decision = applyPortfolioRisk(
+        { symbol, side, size: requestedSize, price: orderPrice, reduceOnly },
+        { equity, exposures },
+        riskMode,
+        allowScaleDown,
+        instrument.lotSize
+      );
+      if (!decision.check.approved) {
+        // The funding and fills picked up while marking to market are still saved
+        return NextResponse.json(
+          {
+            success: false,
+            mode: 'paper',
+            error: decision.check.rejection!.message,
+            rejection: decision.check.rejection,
+          },
+          { status: 422 }
+        );
+      }
+      const size = decision.size;
+
+      const { order, bracket: paperBracket } = placePaperOrder(ledger, {
+        symbol: symbol.toUpperCase(),
+        krakenSymbol: krakenSymbol,
+        side,
+        size,
+        leverage,
+        orderType,
+        limitPrice,
+        stopPrice,
+        reduceOnly,
+        signal,
+      }, markPrice, bracket);
+
+      return NextResponse.json({
+        success: true,
+        mode: 'paper',
+        order: {
+          orderId: order.orderId,
+          symbol: order.krakenSymbol,
+          side,
+          size,
+          leverage,
+          orderType,
+          status: order.status,
+          filledSize: order.filledSize,
+          averagePrice: order.averagePrice,
+          timestamp: order.createdAt,
+        },
+        bracket: paperBracket,
+        risk: riskSummary(requestedSize, decision, riskMode),
+        message: (order.status === 'filled'
+          ? 'Paper trade executed successfully'
+          : `Paper order ${order.status}`) +
+          (decision.check.scaled ? `, scaled down to ${size} by the ${decision.check.bindingLimit} limit` : ''),
+      });
+    });
+
+  } catch (error) {
+    console.error('Execute error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: exchangeErrorCode(error),
+      },
+      { status: exchangeErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * GET /api/execute
+ * Get trading mode and circuit breaker status
+ */
+export async function GET() {
+  const credentials = getKrakenCredentials();
+  const hasApiKeys = credentials !== null;
+  const mode: TradingMode = hasApiKeys ? 'live' : 'paper';
+
+  // Refresh the breaker with current equity - fall back to the last recorded state
+  let halt: CircuitBreakerState | null;
+  let stale = false;
+  try {
+    const { equity } = await getCurrentEquity(credentials);
+    halt = await checkCircuitBreaker(mode, equity);
+  } catch (error) {
+    console.error('Circuit breaker refresh error:', error);
+    halt = await getCircuitBreakerState(mode);
+    stale = true;
+  }
+
+  const halted = halt?.status === 'HALTED';
+
+  return NextResponse.json({
+    mode,
+    tradingEnabled: !halted,
+    status: halt?.status ?? 'ACTIVE',
+    halt,
+    stale,
+    message: halted
+      ? `Trading halted: ${halt?.haltReason?.message} - only risk-reducing orders are accepted`
+      : hasApiKeys
+        ? 'Live trading mode - real orders will be placed'
+        : 'Paper trading mode - no real orders',
+  });
+}
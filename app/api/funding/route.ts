@@ -1,166 +1,165 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { evaluateSignal, compareSignals, createStrategyConfig, requiredHistoryPeriods, MarketPoint, Signal, DEFAULT_STRATEGY_CONFIG } from '@/lib/strategy';
+import { loadCalibration } from '@/lib/calibration-store';
+import { readCandleWindow, readHistory, readMarketWindow } from '@/lib/history-store';
+import { syncCandles, syncKrakenFunding, syncMarketSnapshots } from '@/lib/history-sync';
+import { fromKrakenSymbol, getRelativeFundingRates, getTickers, TickerData } from '@/lib/kraken';
+import { getWatchlistInstruments } from '@/lib/instrument-store';
+import { getFundingIntervalHours } from '@/lib/funding-interval';
+import { ZScoreEstimator, ZSCORE_ESTIMATORS } from '@/lib/estimators';
+import { exchangeErrorCode, exchangeErrorStatus, mapConcurrent } from '@/lib/http-client';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const KRAKEN_FUTURES_BASE = 'https://futures.kraken.com/derivatives/api/v3';
-
-const FUTURES_SYMBOLS: Record<string, string> = {
-  'BTC': 'PF_XBTUSD',
-  'ETH': 'PF_ETHUSD',
-  'SOL': 'PF_SOLUSD',
-  'XRP': 'PF_XRPUSD',
-  'LINK': 'PF_LINKUSD',
-  'LTC': 'PF_LTCUSD',
-};
-
-interface FundingRate {
-  timestamp: string;
-  fundingRate: number;
-  relativeFundingRate: number;
+// Symbols analysed in parallel - the HTTP client's rate limits still apply
+const ANALYSIS_CONCURRENCY = 4;
+
+// Longest z-score window a request may ask for - a year of hourly funding
+const MAX_LOOKBACK_PERIODS = 24 * 365;
+
+interface TickerPrice {
+  price: number;
+  open24h: number;
+  predictedRate?: number;   // Relative, like the stored history
+  openInterest: number;
+  vol24h: number;
+  markPrice: number;
+  indexPrice: number;
+  lastTime?: string;
+  suspended: boolean;
 }
 
-async function fetchFundingRates(symbol: string): Promise<FundingRate[]> {
-  const krakenSymbol = FUTURES_SYMBOLS[symbol];
-  if (!krakenSymbol) return [];
-
-  try {
-    const response = await fetch(
-      `${KRAKEN_FUTURES_BASE}/historicalfundingrates?symbol=${krakenSymbol}`,
-      { 
-        cache: 'no-store',
-        headers: { 'Accept': 'application/json' }
-      }
-    );
-
-    if (!response.ok) {
-      console.error(`HTTP ${response.status} for ${symbol}`);
-      return [];
-    }
-
-    const data = await response.json();
-    return data.result === 'success' ? (data.rates || []) : [];
-  } catch (error) {
-    console.error(`Error fetching ${symbol}:`, error);
-    return [];
-  }
-}
-
-async function fetchTickers(): Promise<Record<string, number>> {
-  try {
-    const response = await fetch(`${KRAKEN_FUTURES_BASE}/tickers`, {
-      cache: 'no-store',
-      headers: { 'Accept': 'application/json' }
-    });
-
-    if (!response.ok) return {};
-
-    const data = await response.json();
-    const prices: Record<string, number> = {};
-
-    if (data.result === 'success' && data.tickers) {
-      for (const ticker of data.tickers) {
-        for (const [ourSymbol, krakenSymbol] of Object.entries(FUTURES_SYMBOLS)) {
-          if (ticker.symbol === krakenSymbol) {
-            prices[ourSymbol] = ticker.last || ticker.markPrice || 0;
-            break;
-          }
-        }
-      }
-    }
-
-    return prices;
-  } catch (error) {
-    console.error('Error fetching tickers:', error);
-    return {};
+/**
+ * Prices, predicted funding and market fields for the given symbols
+ * Throws an ExchangeError when Kraken is unavailable
+ */
+async function fetchTickers(symbols: string[]): Promise<{ prices: Record<string, TickerPrice>; tickers: TickerData[] }> {
+  const tickers = await getTickers();
+  const prices: Record<string, TickerPrice> = {};
+
+  for (const ticker of tickers) {
+    const ourSymbol = fromKrakenSymbol(ticker.symbol);
+    if (!ourSymbol || !symbols.includes(ourSymbol)) continue;
+    prices[ourSymbol] = {
+      price: ticker.last || ticker.markPrice || 0,
+      open24h: ticker.open24h || 0,
+      predictedRate: getRelativeFundingRates(ticker).predicted,
+      openInterest: ticker.openInterest || 0,
+      vol24h: ticker.vol24h || 0,
+      markPrice: ticker.markPrice || 0,
+      indexPrice: ticker.indexPrice || 0,
+      lastTime: ticker.lastTime,
+      suspended: ticker.suspended ?? false,
+    };
   }
-}
 
-function analyzeAsset(symbol: string, rates: FundingRate[], price: number) {
-  if (rates.length < 90) return null;
-
-  const values = rates
-    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-    .map(r => r.relativeFundingRate * 100);
-
-  const lookback = values.slice(-90);
-  const mean = lookback.reduce((a, b) => a + b, 0) / lookback.length;
-  const variance = lookback.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / lookback.length;
-  const std = Math.sqrt(variance);
-  const currentRate = values[values.length - 1];
-  const zScore = std > 0 ? (currentRate - mean) / std : 0;
-
-  // Determine signal
-  let signal = 'NEUTRAL';
-  let confirmations = 0;
-
-  const absZ = Math.abs(zScore);
-  if (absZ >= 1.8) confirmations++;
-  if (absZ >= 2.0) confirmations++;
-  if (absZ >= 2.5) confirmations++;
-  if (absZ >= 3.0) confirmations++;
-
-  if (zScore >= 3.0 && confirmations >= 4) signal = 'ULTRA_SHORT';
-  else if (zScore >= 2.5 && confirmations >= 3) signal = 'STRONG_SHORT';
-  else if (zScore >= 2.0 && confirmations >= 2) signal = 'SHORT';
-  else if (zScore <= -3.0 && confirmations >= 4) signal = 'ULTRA_LONG';
-  else if (zScore <= -2.5 && confirmations >= 3) signal = 'STRONG_LONG';
-  else if (zScore <= -2.0 && confirmations >= 2) signal = 'LONG';
-
-  const edgeScore = Math.min(100, (absZ * 15) + (confirmations * 12));
-  let winProbability = 0.50 + Math.min(0.15, absZ * 0.05) + (confirmations * 0.03);
-  winProbability = Math.min(0.80, winProbability);
-
-  return {
-    symbol,
-    price,
-    currentRate,
-    mean,
-    std,
-    zScore,
-    signal,
-    confirmations,
-    confirmationDetails: [
-      absZ >= 2.0 ? `Z-Score: ${zScore.toFixed(2)}σ` : null,
-      absZ >= 2.5 ? 'Extreme deviation' : null,
-      absZ >= 3.0 ? '🔥 Ultra extreme' : null,
-    ].filter(Boolean),
-    edgeScore,
-    winProbability,
-    isFundingReversing: false,
-    timestamp: new Date().toISOString(),
-    fundingHistory: rates.slice(-30),
-  };
+  return { prices, tickers };
 }
 
 export async function GET(request: NextRequest) {
   try {
     console.log('Fetching funding data...');
     
-    const symbols = Object.keys(FUTURES_SYMBOLS);
-    
-    // Fetch tickers for prices
-    const prices = await fetchTickers();
+    const symbols = (await getWatchlistInstruments()).map(i => i.symbol);
+
+    // Lookback in funding periods - longer than one API page once history has been synced
+    const lookbackParam = request.nextUrl.searchParams.get('lookback');
+    const lookbackPeriods = lookbackParam !== null ? Number(lookbackParam) : DEFAULT_STRATEGY_CONFIG.lookbackPeriods;
+    if (!Number.isInteger(lookbackPeriods) || lookbackPeriods < 2 || lookbackPeriods > MAX_LOOKBACK_PERIODS) {
+      return NextResponse.json(
+        { success: false, error: `lookback must be an integer from 2 to ${MAX_LOOKBACK_PERIODS}`, data: [] },
+        { status: 400 }
+      );
+    }
+    // z-score estimator - standard, ewma, mad or percentile
+    const estimator = (request.nextUrl.searchParams.get('estimator') || DEFAULT_STRATEGY_CONFIG.estimator) as ZScoreEstimator;
+    if (!ZSCORE_ESTIMATORS.includes(estimator)) {
+      return NextResponse.json(
+        { success: false, error: `estimator must be one of: ${ZSCORE_ESTIMATORS.join(', ')}`, data: [] },
+        { status: 400 }
+      );
+    }
+    // Extra z-score windows for the window agreement confirmation, e.g. windows=24,90,270
+    // Off unless asked for, so the signals match /api/signals and the backtester by default
+    const windowsParam = request.nextUrl.searchParams.get('windows');
+    const windowPeriods = windowsParam
+      ? windowsParam.split(',').map(w => Number(w.trim()))
+      : DEFAULT_STRATEGY_CONFIG.windowPeriods;
+    if (windowPeriods.some(w => !Number.isInteger(w) || w < 2 || w > MAX_LOOKBACK_PERIODS)) {
+      return NextResponse.json(
+        { success: false, error: `windows must be comma-separated integers from 2 to ${MAX_LOOKBACK_PERIODS}`, data: [] },
+        { status: 400 }
+      );
+    }
+    const config = createStrategyConfig({ lookbackPeriods, estimator, windowPeriods, windowAgreementConfirmation: windowPeriods.length > 0 });
+
+    // Fitted win probabilities, if a calibration table has been saved
+    const calibration = await loadCalibration();
+
+    // Fetch tickers for prices, and record an open interest / volume snapshot
+    const { prices, tickers } = await fetchTickers(symbols);
     console.log('Prices fetched:', Object.keys(prices).length);
+    try {
+      await syncMarketSnapshots(tickers, symbols);
+    } catch (err) {
+      console.error('Market snapshot sync failed:', err);
+    }
 
     // Fetch funding rates for each symbol
-    const analyses = [];
-    
-    for (const symbol of symbols) {
+    const errors: string[] = [];
+    const results = await mapConcurrent(symbols, ANALYSIS_CONCURRENCY, async (symbol): Promise<Signal | null> => {
       try {
-        const rates = await fetchFundingRates(symbol);
+        // Only hits Kraken when a new funding period may have been published
+        try {
+          await syncKrakenFunding(symbol);
+        } catch (err) {
+          console.error(`Funding sync failed for ${symbol}, using stored history:`, err);
+          errors.push(`${symbol}: funding sync failed (${err instanceof Error ? err.message : 'Unknown error'}), using stored history`);
+        }
+        try {
+          await syncCandles(symbol);
+        } catch (err) {
+          console.error(`Candle sync failed for ${symbol}, using stored candles:`, err);
+          errors.push(`${symbol}: candle sync failed (${err instanceof Error ? err.message : 'Unknown error'}), using stored candles`);
+        }
+        const rates = await readHistory('kraken-funding', symbol, { limit: requiredHistoryPeriods(config) });
         console.log(`${symbol}: ${rates.length} rates`);
-        
-        if (rates.length > 0) {
-          const analysis = analyzeAsset(symbol, rates, prices[symbol] || 0);
-          if (analysis) {
-            analyses.push(analysis);
-          }
+        if (rates.length === 0) return null;
+
+        const ticker = prices[symbol];
+        // Stored snapshots plus the live ticker as the latest point
+        const market: MarketPoint[] = await readMarketWindow(symbol, config);
+        if (ticker) {
+          market.push({
+            timestamp: new Date().toISOString(),
+            openInterest: ticker.openInterest,
+            vol24h: ticker.vol24h,
+            markPrice: ticker.markPrice,
+            indexPrice: ticker.indexPrice,
+          });
         }
+        return evaluateSignal({
+          symbol,
+          history: rates,
+          predictedRate: ticker?.predictedRate,
+          market,
+          historyIntervalHours: getFundingIntervalHours('kraken', symbol),
+          price: ticker?.price || 0,
+          open24h: ticker?.open24h,
+          // A missing ticker shows up as a zero price data quality error
+          ticker: ticker ? { lastTime: ticker.lastTime, suspended: ticker.suspended } : undefined,
+          candles: await readCandleWindow(symbol, config),
+        }, config, calibration);
       } catch (err) {
         console.error(`Error analyzing ${symbol}:`, err);
+        errors.push(`Error analyzing ${symbol}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        return null;
       }
-    }
+    });
+    const analyses = results.filter((s): s is Signal => s !== null);
+
+    analyses.sort(compareSignals);
 
     console.log(`Returning ${analyses.length} analyses`);
 
@@ -168,6 +167,14 @@ export async function GET(request: NextRequest) {
       success: true,
       timestamp: new Date().toISOString(),
       data: analyses,
+      lookbackPeriods,
+      estimator,
+      windowPeriods: config.windowPeriods,
+      rateBasis: 'hourly',
+      errors: errors.length > 0 ? errors : undefined,
+      calibration: calibration
+        ? { fittedAt: calibration.fittedAt, source: calibration.source, totalSamples: calibration.totalSamples }
+        : null,
     });
   } catch (error) {
     console.error('Funding API error:', error);
@@ -175,10 +182,11 @@ export async function GET(request: NextRequest) {
       { 
         success: false, 
         error: error instanceof Error ? error.message : 'Failed to fetch funding data',
+        code: exchangeErrorCode(error),
         timestamp: new Date().toISOString(),
         data: []
       },
-      { status: 500 }
+      { status: exchangeErrorStatus(error) }
     );
   }
 }
@@ -0,0 +1,78 @@
+// API Route: /api/halt
+// Circuit breaker state - daily loss and drawdown halts, with a manual reset
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getKrakenCredentials } from '@/lib/kraken-private';
+import { exchangeErrorCode, exchangeErrorStatus } from '@/lib/http-client';
+import {
+  checkCircuitBreaker,
+  resetCircuitBreaker,
+  getCircuitBreakerConfig,
+  getCurrentEquity,
+} from '@/lib/circuit-breaker';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/halt
+ * Refresh the breaker with current equity and return its state and limits
+ */
+export async function GET() {
+  try {
+    const { mode, equity } = await getCurrentEquity(getKrakenCredentials());
+    const state = await checkCircuitBreaker(mode, equity);
+
+    return NextResponse.json({
+      success: true,
+      state,
+      config: getCircuitBreakerConfig(),
+    });
+  } catch (error) {
+    console.error('Halt status error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: exchangeErrorCode(error),
+      },
+      { status: exchangeErrorStatus(error) }
+    );
+  }
+}
+
+/**
+ * POST /api/halt
+ * Body: { "action": "reset" }
+ * Lift a halt and rebase the session open and drawdown peak to current equity
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== 'reset') {
+      return NextResponse.json(
+        { success: false, error: 'Action must be "reset"' },
+        { status: 400 }
+      );
+    }
+
+    const { mode, equity } = await getCurrentEquity(getKrakenCredentials());
+    const state = await resetCircuitBreaker(mode, equity);
+
+    return NextResponse.json({
+      success: true,
+      state,
+      message: `Circuit breaker reset for ${mode} trading at equity ${equity.toFixed(2)}`,
+    });
+  } catch (error) {
+    console.error('Halt reset error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: exchangeErrorCode(error),
+      },
+      { status: exchangeErrorStatus(error) }
+    );
+  }
+}
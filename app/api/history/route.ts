@@ -0,0 +1,110 @@
+// API Route: /api/history
+// Local funding rate / market snapshot / candle store - read a series or run the sync job
+// POST from a cron job to keep history current between dashboard requests
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getInstrumentRegistry, getWatchlist } from '@/lib/instrument-store';
+import { HistorySeries, readHistory } from '@/lib/history-store';
+import { syncHistory } from '@/lib/history-sync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const SERIES: HistorySeries[] = ['kraken-funding', 'binance-funding', 'market', 'candles'];
+
+/**
+ * GET /api/history?symbol=BTC&series=kraken-funding&limit=500&since=2024-01-01T00:00:00Z
+ * Stored records, oldest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const symbol = params.get('symbol')?.toUpperCase();
+    const series = (params.get('series') || 'kraken-funding') as HistorySeries;
+    const limit = params.get('limit') ? parseInt(params.get('limit')!, 10) : undefined;
+    const since = params.get('since') || undefined;
+
+    const { instruments } = await getInstrumentRegistry();
+    if (!symbol || !instruments.some(i => i.symbol === symbol)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown symbol: ${symbol ?? ''}` },
+        { status: 400 }
+      );
+    }
+
+    if (!SERIES.includes(series)) {
+      return NextResponse.json(
+        { success: false, error: `Series must be one of: ${SERIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'limit must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const records = await readHistory(series, symbol, { limit, since });
+
+    return NextResponse.json({
+      success: true,
+      symbol,
+      series,
+      count: records.length,
+      records,
+    });
+  } catch (error) {
+    console.error('History read error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/history
+ * Body (optional): { "symbols": ["BTC", "ETH"], "binance": true }
+ * Fetch only the periods newer than what is stored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const symbols: string[] = Array.isArray(body.symbols)
+      ? body.symbols.map((s: string) => String(s).toUpperCase())
+      : getWatchlist();
+
+    const { instruments } = await getInstrumentRegistry();
+    const unknown = symbols.filter(s => !instruments.some(i => i.symbol === s));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown symbols: ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await syncHistory(symbols, { binance: body.binance !== false });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      added: results.reduce((sum, r) => sum + r.added, 0),
+      results,
+      errors: results.filter(r => r.error).map(r => `${r.series} ${r.symbol}: ${r.error}`),
+    });
+  } catch (error) {
+    console.error('History sync error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
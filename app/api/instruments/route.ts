@@ -0,0 +1,35 @@
+// API Route: /api/instruments
+// Instrument registry - trading rules for every listed perpetual and the configured watchlist
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getInstrumentRegistry, getWatchlist } from '@/lib/instrument-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/instruments?refresh=1
+ * refresh=1 skips the in-memory TTL and asks Kraken again
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const refresh = request.nextUrl.searchParams.get('refresh') === '1';
+    const registry = await getInstrumentRegistry({ refresh });
+    const watchlist = getWatchlist();
+
+    return NextResponse.json({
+      success: true,
+      source: registry.source,
+      fetchedAt: registry.fetchedAt,
+      watchlist,
+      missing: watchlist.filter(symbol => !registry.instruments.some(i => i.symbol === symbol && i.tradeable)),
+      instruments: registry.instruments,
+    });
+  } catch (error) {
+    console.error('Instruments error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+// API Route: /api/orders
+// Paper order history and fills from the local ledger
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadLedger, PaperOrderStatus } from '@/lib/paper-broker';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ORDER_STATUSES: PaperOrderStatus[] = ['open', 'filled', 'cancelled'];
+
+/**
+ * GET /api/orders?status=open&symbol=BTC
+ * Most recent orders first, with the fills that belong to them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const symbol = request.nextUrl.searchParams.get('symbol')?.toUpperCase();
+
+    if (status && !ORDER_STATUSES.includes(status as PaperOrderStatus)) {
+      return NextResponse.json(
+        { success: false, error: `Status must be one of: ${ORDER_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const ledger = await loadLedger();
+    const orders = ledger.orders
+      .filter(o => !status || o.status === status)
+      .filter(o => !symbol || o.symbol === symbol)
+      .slice()
+      .reverse()
+      .map(order => ({
+        ...order,
+        fills: ledger.fills.filter(f => f.orderId === order.orderId),
+      }));
+
+    return NextResponse.json({
+      success: true,
+      mode: 'paper',
+      timestamp: new Date().toISOString(),
+      orders,
+    });
+  } catch (error) {
+    console.error('Orders API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load orders',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+// API Route: /api/positions
+// Open paper positions valued at the latest Kraken mark prices, with funding accrued
+// POST applies the exit rules (funding normalization, scale out, max hold, trailing stop)
+// Call it explicitly or from a cron job, like /api/brackets
+
+import { NextResponse } from 'next/server';
+import { getTickers, getTickerForSymbol } from '@/lib/kraken';
+import { loadLedger, updateLedger, markToMarket, accrueLedgerFunding, summarizeLedger, managePaperExits, summarizeExits, PaperFill, PaperLedger } from '@/lib/paper-broker';
+import { loadExitObservation } from '@/lib/live-signals';
+import { ExitObservation } from '@/lib/exits';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function describePositions(ledger: PaperLedger) {
+  return Object.values(ledger.positions).map(position => ({
+    ...position,
+    pricePnl: position.realizedPnl + position.unrealizedPnl,
+    totalPnl: position.realizedPnl + position.unrealizedPnl + position.fundingPnl,
+  }));
+}
+
+/**
+ * GET /api/positions
+ * Accrue funding, mark paper positions to market and return them with account totals
+ * and realized PnL by exit reason
+ */
+export async function GET() {
+  try {
+    let ledger: PaperLedger;
+    let stale = false;
+
+    try {
+      ledger = await updateLedger(async current => {
+        await accrueLedgerFunding(current);
+        markToMarket(current, await getTickers());
+        return current;
+      });
+    } catch (error) {
+      // Fall back to the last stored marks rather than failing the dashboard
+      console.error('Mark to market failed:', error);
+      stale = true;
+      ledger = await loadLedger();
+    }
+
+    return NextResponse.json({
+      success: true,
+      mode: 'paper',
+      timestamp: new Date().toISOString(),
+      positions: describePositions(ledger),
+      summary: summarizeLedger(ledger),
+      exitsByReason: summarizeExits(ledger),
+      stale,
+    });
+  } catch (error) {
+    console.error('Positions API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load positions',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/positions
+ * Accrue funding, mark to market and apply the exit rules to funding fades opened with a signal
+ * Returns the exits made and the positions left
+ */
+export async function POST() {
+  try {
+    let exitFills: PaperFill[] = [];
+
+    const ledger = await updateLedger(async current => {
+      await accrueLedgerFunding(current);
+      const tickers = await getTickers();
+      markToMarket(current, tickers);
+
+      const observations: Record<string, ExitObservation> = {};
+      for (const position of Object.values(current.positions)) {
+        if (!position.entrySignal) continue;
+        const ticker = getTickerForSymbol(tickers, position.symbol);
+        if (ticker && ticker.markPrice) observations[position.symbol] = await loadExitObservation(position.symbol, ticker);
+      }
+      exitFills = managePaperExits(current, observations);
+      return current;
+    });
+
+    return NextResponse.json({
+      success: true,
+      mode: 'paper',
+      timestamp: new Date().toISOString(),
+      exitFills,
+      positions: describePositions(ledger),
+      summary: summarizeLedger(ledger),
+      exitsByReason: summarizeExits(ledger),
+    });
+  } catch (error) {
+    console.error('Position exits error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to apply exit rules',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
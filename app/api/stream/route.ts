@@ -0,0 +1,152 @@
+// API Route: /api/stream
+// Server-sent events with live signal updates from the Kraken WebSocket ticker feed
+//
+// Events:
+//   status  - { status, tickers } whenever the feed connects, drops or reconnects
+//   signal  - Signal, whenever an asset's signal, z-score (realized or predicted), funding rate or price changes
+//   error   - { message } when stored history can't be loaded - signals carry on with what is in memory
+
+import { NextRequest } from 'next/server';
+import { Candle, FundingRate, TickerData, fromKrakenSymbol } from '@/lib/kraken';
+import { FeedStatus, getTickerFeed } from '@/lib/kraken-ws';
+import { MarketPoint, Signal } from '@/lib/strategy';
+import { loadCalibration } from '@/lib/calibration-store';
+import { syncMarketSnapshots } from '@/lib/history-sync';
+import { loadSignalHistory, loadMarketHistory, loadCandleHistory, evaluateLiveSignal } from '@/lib/live-signals';
+import { getWatchlistInstruments } from '@/lib/instrument-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MIN_PUSH_INTERVAL_MS = 1000;      // Per asset
+const HISTORY_REFRESH_MS = 10 * 60 * 1000;
+const KEEPALIVE_MS = 15000;
+
+// Values that decide whether a new signal is worth sending
+function signalKey(signal: Signal): string {
+  return [
+    signal.signal,
+    signal.confirmations,
+    signal.zScore.toFixed(2),
+    signal.predicted?.zScore.toFixed(2) ?? '',
+    signal.currentFundingRate.toPrecision(4),
+    signal.price.toPrecision(6),
+    signal.dataQuality.issues.map(i => i.code).join(','),
+    signal.trendFilteredFrom ?? '',
+  ].join('|');
+}
+
+/**
+ * GET /api/stream
+ */
+export async function GET(request: NextRequest) {
+  const feed = getTickerFeed();
+  const calibration = await loadCalibration();
+  const encoder = new TextEncoder();
+
+  const assets = (await getWatchlistInstruments()).map(i => i.symbol);
+
+  const history: Record<string, FundingRate[]> = {};
+  const market: Record<string, MarketPoint[]> = {};
+  const candles: Record<string, Candle[]> = {};
+  const loadHistory = async () => {
+    // Record the feed's open interest / volume before reading the window back
+    const tickers = feed.getTickers();
+    if (tickers.length > 0) await syncMarketSnapshots(tickers, assets);
+
+    for (const symbol of assets) {
+      history[symbol] = await loadSignalHistory(symbol);
+      market[symbol] = await loadMarketHistory(symbol);
+      candles[symbol] = await loadCandleHistory(symbol);
+    }
+  };
+  // A failed first load still opens the stream - signals fall back to thresholds until a refresh works
+  let historyError: string | null = null;
+  try {
+    await loadHistory();
+  } catch (error) {
+    console.error('Stream history load error:', error);
+    historyError = error instanceof Error ? error.message : 'Failed to load history';
+  }
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const lastKey: Record<string, string> = {};
+      const lastPush: Record<string, number> = {};
+      let closed = false;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const pushSignal = (ticker: TickerData) => {
+        const symbol = fromKrakenSymbol(ticker.symbol);
+        if (!symbol || !assets.includes(symbol)) return;
+
+        const now = Date.now();
+        if (now - (lastPush[symbol] ?? 0) < MIN_PUSH_INTERVAL_MS) return;
+
+        const signal = evaluateLiveSignal(symbol, ticker, history[symbol] ?? [], calibration, market[symbol], candles[symbol]);
+        const key = signalKey(signal);
+        if (key === lastKey[symbol]) return;
+
+        lastKey[symbol] = key;
+        lastPush[symbol] = now;
+        send('signal', signal);
+      };
+
+      const onStatus = (status: FeedStatus) => {
+        send('status', { status, tickers: feed.getTickers().length });
+      };
+
+      controller.enqueue(encoder.encode('retry: 5000\n\n'));
+      onStatus(feed.getStatus());
+      if (historyError) send('error', { message: historyError });
+      feed.getTickers().forEach(pushSignal);
+
+      feed.on('ticker', pushSignal);
+      feed.on('status', onStatus);
+
+      const keepAlive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keepalive\n\n'));
+      }, KEEPALIVE_MS);
+
+      const historyRefresh = setInterval(() => {
+        loadHistory().catch(error => {
+          console.error('Stream history refresh error:', error);
+          send('error', { message: error instanceof Error ? error.message : 'Failed to refresh history' });
+        });
+      }, HISTORY_REFRESH_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        feed.off('ticker', pushSignal);
+        feed.off('status', onStatus);
+        clearInterval(keepAlive);
+        clearInterval(historyRefresh);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener('abort', cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
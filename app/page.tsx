@@ -1,8 +1,10 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Signal } from '@/lib/signals';
-import { RiskMode, RISK_PROFILES, formatCurrency, formatPercent, calculateProgress } from '@/lib/risk';
+import { Signal, compareSignals } from '@/lib/strategy';
+import { calculatePosition } from '@/lib/analysis';
+import { RiskMode, RISK_PROFILES, SizingMethod, formatCurrency, formatPercent, calculateProgress } from '@/lib/risk';
+import { Instrument, floorToLot, roundToTick } from '@/lib/instruments';
 
 interface ApiResponse {
   success: boolean;
@@ -16,12 +18,62 @@ interface ApiResponse {
   };
 }
 
+type TradingMode = 'paper' | 'live';
+
+interface TradingStatus {
+  mode: TradingMode;
+  status: 'ACTIVE' | 'HALTED';
+  halt: { haltReason: { message: string } | null } | null;
+}
+
+interface InstrumentsResponse {
+  success: boolean;
+  instruments?: Instrument[];
+}
+
+interface ExecuteResponse {
+  success: boolean;
+  mode?: TradingMode;
+  error?: string;
+  message?: string;
+  rejection?: { status: string };
+  order?: {
+    orderId: string;
+    status: string;
+    filledSize: number;
+    averagePrice: number | null;
+  };
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString('en-US', {
+    minimumFractionDigits: price < 1 ? 4 : 2,
+    maximumFractionDigits: price < 1 ? 4 : 2,
+  })}`;
+}
+
+const SIZING_LABELS: Record<SizingMethod, string> = {
+  fixedStop: 'Fixed risk',
+  volatilityTarget: 'Vol target',
+  kelly: 'Kelly',
+};
+
+// Round base-unit size to a sensible precision for the asset's price
+// Fallback for when the instrument's lot size is unknown
+function roundSize(size: number, price: number): number {
+  const decimals = price >= 1000 ? 4 : price >= 10 ? 2 : 0;
+  const factor = Math.pow(10, decimals);
+  return Math.floor(size * factor) / factor;
+}
+
 function getSignalColor(signal: string): string {
   switch (signal) {
+    case 'ULTRA_LONG':
     case 'STRONG_LONG': return 'text-green-400';
     case 'LONG': return 'text-green-300';
     case 'NEUTRAL': return 'text-gray-400';
     case 'SHORT': return 'text-red-300';
+    case 'ULTRA_SHORT':
     case 'STRONG_SHORT': return 'text-red-400';
     default: return 'text-gray-400';
   }
@@ -29,15 +81,177 @@ function getSignalColor(signal: string): string {
 
 function getSignalBg(signal: string): string {
   switch (signal) {
+    case 'ULTRA_LONG': return 'bg-green-500/30 border-green-400';
     case 'STRONG_LONG': return 'bg-green-500/20 border-green-500/50';
     case 'LONG': return 'bg-green-500/10 border-green-500/30';
     case 'NEUTRAL': return 'bg-gray-500/10 border-gray-500/30';
     case 'SHORT': return 'bg-red-500/10 border-red-500/30';
     case 'STRONG_SHORT': return 'bg-red-500/20 border-red-500/50';
+    case 'ULTRA_SHORT': return 'bg-red-500/30 border-red-400';
     default: return 'bg-gray-500/10 border-gray-500/30';
   }
 }
 
+function TradeTicket({
+  signal,
+  capital,
+  riskMode,
+  tradingMode,
+  instrument,
+  onClose,
+}: {
+  signal: Signal;
+  capital: number;
+  riskMode: RiskMode;
+  tradingMode: TradingMode;
+  instrument?: Instrument;
+  onClose: () => void;
+}) {
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<ExecuteResponse | null>(null);
+
+  const position = calculatePosition(signal, capital, riskMode);
+  const isLong = signal.signal.includes('LONG');
+  const side = isLong ? 'buy' : 'sell';
+  // Size and bracket prices follow the instrument's lot and tick so /api/execute accepts them
+  const lotSize = instrument?.lotSize ?? null;
+  const tickSize = instrument?.tickSize ?? null;
+  const size = lotSize !== null
+    ? floorToLot(position.positionSize / signal.price, lotSize)
+    : roundSize(position.positionSize / signal.price, signal.price);
+  const stopLossPrice = roundToTick(position.stopLossPrice, tickSize);
+  const takeProfitPrice = roundToTick(position.takeProfitPrice, tickSize);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/execute', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol: signal.symbol,
+          side,
+          size,
+          leverage: position.leverage,
+          orderType: 'mkt',
+          riskMode,
+          bracket: {
+            stopLossPrice,
+            takeProfitPrice,
+          },
+          signal: {
+            zScore: signal.zScore,
+            confirmations: signal.confirmations,
+            riskAmount: position.riskAmount,
+          },
+        }),
+      });
+      setResult(await response.json());
+    } catch (err) {
+      setResult({ success: false, error: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-xl p-6 w-full max-w-md"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold">
+            <span className={isLong ? 'text-green-400' : 'text-red-400'}>{isLong ? 'Buy' : 'Sell'}</span>
+            {' '}{signal.symbol}/USD
+          </h2>
+          <span className={`text-xs font-semibold px-2 py-0.5 rounded ${
+            tradingMode === 'live' ? 'bg-red-600' : 'bg-yellow-600'
+          }`}>
+            {tradingMode.toUpperCase()}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm mb-4">
+          <div>
+            <p className="text-gray-500">Size</p>
+            <p className="font-mono">{size} {signal.symbol}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Notional</p>
+            <p className="font-mono">{formatPrice(size * signal.price)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Leverage</p>
+            <p className="font-mono">{position.leverage}x</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Risk ({riskMode}, {SIZING_LABELS[position.sizingMethod]})</p>
+            <p className="font-mono">{formatCurrency(position.riskAmount)}</p>
+            {position.sizingMethod === 'volatilityTarget' && position.dailyVolatility !== null && (
+              <p className="text-xs text-gray-500 font-mono">{(position.dailyVolatility * 100).toFixed(1)}% daily vol</p>
+            )}
+            {position.sizingMethod === 'kelly' && position.kellyStake !== null && (
+              <p className="text-xs text-gray-500 font-mono">full Kelly {(position.kellyStake * 100).toFixed(1)}%</p>
+            )}
+          </div>
+          <div>
+            <p className="text-gray-500">Stop Loss ({position.stopMethod === 'atr' ? 'ATR' : 'fixed'})</p>
+            <p className="font-mono text-red-400">
+              {formatPrice(stopLossPrice)} <span className="text-xs text-gray-500">-{(position.stopLossPercent * 100).toFixed(2)}%</span>
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Take Profit</p>
+            <p className="font-mono text-green-400">{formatPrice(takeProfitPrice)}</p>
+          </div>
+        </div>
+
+        {result && (
+          <div className={`rounded-lg p-3 mb-4 text-sm border ${
+            result.success ? 'bg-green-500/10 border-green-500/50' : 'bg-red-500/10 border-red-500/50'
+          }`}>
+            {result.success && result.order ? (
+              <>
+                <p className="text-green-400">{result.message}</p>
+                <p className="text-gray-400 mt-1 font-mono text-xs break-all">
+                  {result.order.orderId} • {result.mode} • {result.order.status}
+                </p>
+              </>
+            ) : (
+              <p className="text-red-400">
+                ⚠️ {result.error}{result.rejection ? ` (${result.rejection.status})` : ''}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+          >
+            {result?.success ? 'Close' : 'Cancel'}
+          </button>
+          {!result?.success && (
+            <button
+              onClick={submit}
+              disabled={submitting || size <= 0}
+              className={`flex-1 px-4 py-2 rounded-lg disabled:opacity-50 transition-colors ${
+                isLong ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {submitting ? 'Submitting...' : `Confirm ${isLong ? 'Buy' : 'Sell'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function Dashboard() {
   const [signals, setSignals] = useState<Signal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,6 +259,11 @@ export default function Dashboard() {
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
   const [riskMode, setRiskMode] = useState<RiskMode>('MEDIUM');
   const [capital, setCapital] = useState(5000);
+  const [tradingMode, setTradingMode] = useState<TradingMode>('paper');
+  const [haltReason, setHaltReason] = useState<string | null>(null);
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  const [ticketSignal, setTicketSignal] = useState<Signal | null>(null);
+  const [instruments, setInstruments] = useState<Record<string, Instrument>>({});
 
   const fetchSignals = useCallback(async () => {
     setLoading(true);
@@ -67,12 +286,59 @@ export default function Dashboard() {
     }
   }, []);
 
+  const fetchTradingStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/execute');
+      const data: TradingStatus = await response.json();
+      setTradingMode(data.mode === 'live' ? 'live' : 'paper');
+      setHaltReason(data.status === 'HALTED'
+        ? data.halt?.haltReason?.message ?? 'Circuit breaker tripped'
+        : null);
+    } catch {
+      setTradingMode('paper');
+    }
+  }, []);
+
+  // Trading rules only change on listings, so load them once
+  useEffect(() => {
+    fetch('/api/instruments')
+      .then(response => response.json())
+      .then((data: InstrumentsResponse) => {
+        if (!data.success || !data.instruments) return;
+        setInstruments(Object.fromEntries(data.instruments.map(i => [i.symbol, i])));
+      })
+      .catch(() => setInstruments({}));
+  }, []);
+
+  // Live updates from the WebSocket feed - the 5 minute poll below stays as a fallback
+  useEffect(() => {
+    const source = new EventSource('/api/stream');
+
+    source.addEventListener('status', (event) => {
+      setStreamStatus(JSON.parse((event as MessageEvent).data).status);
+    });
+
+    source.addEventListener('signal', (event) => {
+      const update: Signal = JSON.parse((event as MessageEvent).data);
+      setSignals(prev => [...prev.filter(s => s.symbol !== update.symbol), update].sort(compareSignals));
+      setLastUpdate(new Date());
+    });
+
+    source.onerror = () => setStreamStatus('reconnecting');
+
+    return () => source.close();
+  }, []);
+
   useEffect(() => {
     fetchSignals();
+    fetchTradingStatus();
     // Refresh every 5 minutes
-    const interval = setInterval(fetchSignals, 5 * 60 * 1000);
+    const interval = setInterval(() => {
+      fetchSignals();
+      fetchTradingStatus();
+    }, 5 * 60 * 1000);
     return () => clearInterval(interval);
-  }, [fetchSignals]);
+  }, [fetchSignals, fetchTradingStatus]);
 
   const progress = calculateProgress(capital);
   const profile = RISK_PROFILES[riskMode];
@@ -90,11 +356,22 @@ export default function Dashboard() {
             <p className="text-sm text-gray-400 mt-1">
               {loading ? 'Fetching signals...' : (
                 <>
-                  <span className="text-yellow-400">Paper Trading Mode</span>
+                  {tradingMode === 'live'
+                    ? <span className="text-green-400">Live Trading Enabled</span>
+                    : <span className="text-yellow-400">Paper Trading Mode</span>}
+                  {streamStatus === 'open'
+                    ? <span className="text-green-400"> • ● Live</span>
+                    : streamStatus && <span className="text-gray-500"> • Live feed {streamStatus}</span>}
                   {lastUpdate && ` • Updated: ${lastUpdate.toLocaleTimeString()}`}
                 </>
               )}
             </p>
+            {haltReason && (
+              <p className="mt-2 inline-flex items-center gap-2 px-2 py-1 rounded bg-red-500/20 border border-red-500/50 text-sm text-red-400">
+                <span className="font-bold">⛔ HALTED</span>
+                <span>{haltReason}</span>
+              </p>
+            )}
           </div>
 
           {/* Risk Mode Selector */}
@@ -164,7 +441,7 @@ export default function Dashboard() {
               </div>
               <div>
                 <p className="text-2xl font-bold">{(profile.riskPerTrade * 100).toFixed(0)}%</p>
-                <p className="text-xs text-gray-400">Risk/Trade</p>
+                <p className="text-xs text-gray-400">Risk/Trade ({SIZING_LABELS[profile.sizingMethod]})</p>
               </div>
             </div>
           </div>
@@ -191,7 +468,9 @@ export default function Dashboard() {
             {signals.map((signal) => (
               <div
                 key={signal.symbol}
-                className={`rounded-xl border p-5 transition-all hover:scale-[1.02] ${getSignalBg(signal.signal)}`}
+                className={`rounded-xl border p-5 transition-all hover:scale-[1.02] ${getSignalBg(signal.signal)} ${
+                  signal.dataQuality.ok ? '' : 'opacity-50 grayscale'
+                }`}
               >
                 {/* Header */}
                 <div className="flex items-center justify-between mb-4">
@@ -217,6 +496,30 @@ export default function Dashboard() {
                   </p>
                 </div>
 
+                {/* Data quality - the signal was downgraded or can't be trusted */}
+                {!signal.dataQuality.ok && (
+                  <div className="mb-4 px-2 py-1 rounded bg-yellow-500/10 border border-yellow-500/40 text-xs text-yellow-400">
+                    <p className="font-semibold">
+                      ⚠ Bad data{signal.downgradedFrom && ` - ${signal.downgradedFrom.replace('_', ' ')} suppressed`}
+                    </p>
+                    {signal.dataQuality.issues
+                      .filter(issue => issue.severity === 'error')
+                      .map(issue => <p key={issue.code}>{issue.message}</p>)}
+                  </div>
+                )}
+
+                {/* Trend filter - fading a strong trend was blocked or downgraded */}
+                {signal.trendFilteredFrom && signal.priceAction && (
+                  <div className="mb-4 px-2 py-1 rounded bg-orange-500/10 border border-orange-500/40 text-xs text-orange-400">
+                    <p className="font-semibold">
+                      {signal.priceAction.strongTrend === 'up' ? '↗ Strong uptrend' : '↘ Strong downtrend'} - {signal.trendFilteredFrom.replace('_', ' ')} {signal.signal === 'NEUTRAL' ? 'blocked' : 'downgraded'}
+                    </p>
+                    <p>
+                      MA {signal.priceAction.maSlope >= 0 ? '+' : ''}{signal.priceAction.maSlope.toFixed(1)} ATR, RSI {signal.priceAction.rsi.toFixed(0)}
+                    </p>
+                  </div>
+                )}
+
                 {/* Metrics */}
                 <div className="grid grid-cols-2 gap-3 text-sm">
                   <div>
@@ -227,11 +530,16 @@ export default function Dashboard() {
                     }`}>
                       {signal.zScore >= 0 ? '+' : ''}{signal.zScore.toFixed(2)}σ
                     </p>
+                    {signal.predicted && signal.signalSource === 'zscore' && (
+                      <p className="text-xs text-gray-500 font-mono">
+                        next {signal.predicted.zScore >= 0 ? '+' : ''}{signal.predicted.zScore.toFixed(2)}σ
+                      </p>
+                    )}
                   </div>
                   <div>
-                    <p className="text-gray-500">Funding</p>
+                    <p className="text-gray-500">Funding /h</p>
                     <p className={`font-mono ${signal.currentFundingRate >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                      {formatPercent(signal.currentFundingRate * 100, 4)}
+                      {formatPercent(signal.currentFundingRate * 100, 5)}
                     </p>
                   </div>
                   <div>
@@ -247,6 +555,19 @@ export default function Dashboard() {
                     </p>
                   </div>
                 </div>
+
+                {signal.signal !== 'NEUTRAL' && (
+                  <button
+                    onClick={() => setTicketSignal(signal)}
+                    className={`w-full mt-4 px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                      signal.signal.includes('LONG')
+                        ? 'bg-green-600 hover:bg-green-700'
+                        : 'bg-red-600 hover:bg-red-700'
+                    }`}
+                  >
+                    Trade this signal
+                  </button>
+                )}
               </div>
             ))}
           </div>
@@ -255,9 +576,27 @@ export default function Dashboard() {
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-gray-500">
           <p>⚠️ This is for educational purposes. Not financial advice.</p>
-          <p className="mt-1">Paper trading mode - add API keys to enable live trading</p>
+          <p className="mt-1">
+            {tradingMode === 'live'
+              ? 'Live trading mode - real orders will be placed'
+              : 'Paper trading mode - add API keys to enable live trading'}
+          </p>
         </div>
       </div>
+
+      {ticketSignal && (
+        <TradeTicket
+          signal={ticketSignal}
+          capital={capital}
+          riskMode={riskMode}
+          tradingMode={tradingMode}
+          instrument={instruments[ticketSignal.symbol]}
+          onClose={() => {
+            setTicketSignal(null);
+            fetchTradingStatus();
+          }}
+        />
+      )}
     </main>
   );
 }
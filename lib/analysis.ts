@@ -2,37 +2,21 @@
  * Trading Strategy: Funding Rate Mean Reversion
  * 
  * Core Logic:
- * - Calculate Z-score of current funding rate vs historical mean
- * - Generate signals when funding is extreme (>2 std deviations)
- * - Stack multiple confirmations to increase confidence
+ * - Signals come from the strategy engine (strategy.ts)
+ * - Size positions from the signal strength and risk profile - fixed stop risk,
+ *   volatility target or fractional Kelly (risk.ts)
+ * - Stop loss / take profit levels for each trade - ATR-scaled when candles are available
  */
 
-import { FundingRate } from './kraken';
+import { Candle, FundingRate } from './kraken';
+import { CalibrationTable } from './calibration';
+import { MarketPoint, Signal, SignalType, StrategyConfig, createStrategyConfig, evaluateSignal } from './strategy';
+import { RISK_PROFILES as SIZING_PROFILES, SizingMethod, sizePosition } from './risk';
 
-export type SignalType = 
-  | 'ULTRA_LONG' 
-  | 'STRONG_LONG' 
-  | 'LONG' 
-  | 'NEUTRAL' 
-  | 'SHORT' 
-  | 'STRONG_SHORT' 
-  | 'ULTRA_SHORT';
+export type { SignalType } from './strategy';
 
-export interface Analysis {
-  symbol: string;
-  price: number;
-  currentRate: number;
-  mean: number;
-  std: number;
-  zScore: number;
-  signal: SignalType;
-  confirmations: number;
-  confirmationDetails: string[];
-  edgeScore: number;
-  winProbability: number;
-  isFundingReversing: boolean;
-  timestamp: Date;
-}
+// Analysis is the canonical strategy signal
+export type Analysis = Signal;
 
 export interface PositionSize {
   positionSize: number;
@@ -41,6 +25,10 @@ export interface PositionSize {
   riskPercent: number;
   stopLossPercent: number;
   takeProfitPercent: number;
+  stopMethod: 'atr' | 'fixed';
+  sizingMethod: SizingMethod;     // Method used - fixedStop when the profile's method lacks inputs
+  dailyVolatility: number | null; // Asset's realized daily volatility, from the signal's candles
+  kellyStake: number | null;      // Full Kelly fraction of capital - kelly sizing only
   stopLossPrice: number;
   takeProfitPrice: number;
   expectedValue: number;
@@ -55,126 +43,52 @@ export const RISK_PROFILES = {
 
 export type RiskMode = keyof typeof RISK_PROFILES;
 
+// Stop distance: ATR_STOP_MULTIPLE x ATR, clamped - FIXED_STOP_LOSS_PERCENT without candles
+const ATR_STOP_MULTIPLE = 2;
+const MIN_STOP_LOSS_PERCENT = 0.005;
+const MAX_STOP_LOSS_PERCENT = 0.05;
+const FIXED_STOP_LOSS_PERCENT = 0.015;
+
 /**
  * Analyze funding rate data and generate trading signals
+ * Requires a full lookback window - returns null otherwise (no threshold fallback)
+ * Pass a calibration table to use fitted win probabilities instead of the formula,
+ * market snapshots for the open interest / volume confirmations, and price
+ * candles for the trend filter and ATR stops.
+ * The funding interval is inferred from the rate timestamps unless given
  */
 export function analyzeAsset(
   symbol: string,
   fundingRates: FundingRate[],
   currentPrice: number,
-  lookbackPeriods: number = 90
+  lookbackPeriods: number = 90,
+  calibration?: CalibrationTable | null,
+  config: Partial<StrategyConfig> = {},
+  market?: MarketPoint[],
+  fundingIntervalHours?: number,
+  candles?: Candle[]
 ): Analysis | null {
   if (fundingRates.length < lookbackPeriods) {
     console.warn(`Insufficient data for ${symbol}: ${fundingRates.length} < ${lookbackPeriods}`);
     return null;
   }
 
-  // Sort by timestamp and get recent data
-  const sortedRates = [...fundingRates]
-    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-  
-  const rates = sortedRates.map(r => r.relativeFundingRate * 100); // Convert to percentage
-  const lookback = rates.slice(-lookbackPeriods);
-
-  // Calculate statistics
-  const mean = lookback.reduce((a, b) => a + b, 0) / lookback.length;
-  const variance = lookback.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / lookback.length;
-  const std = Math.sqrt(variance);
-
-  const currentRate = rates[rates.length - 1];
-  const zScore = std > 0 ? (currentRate - mean) / std : 0;
-
-  // Check funding trend (last 6 periods = ~2 days)
-  const recentRates = rates.slice(-6);
-  const fundingTrend = recentRates.length >= 2 
-    ? (recentRates[recentRates.length - 1] - recentRates[0]) / (recentRates.length - 1)
-    : 0;
-  
-  const isFundingReversing = 
-    (currentRate > mean && fundingTrend < 0) || 
-    (currentRate < mean && fundingTrend > 0);
-
-  // Count confirmations
-  let confirmations = 0;
-  const confirmationDetails: string[] = [];
-
-  const absZ = Math.abs(zScore);
-  
-  if (absZ >= 1.8) {
-    confirmations++;
-    confirmationDetails.push(`Z-Score: ${zScore.toFixed(2)}σ`);
-  }
-  if (absZ >= 2.0) {
-    confirmations++;
-    confirmationDetails.push('Above 2σ threshold');
-  }
-  if (absZ >= 2.5) {
-    confirmations++;
-    confirmationDetails.push('Extreme deviation (2.5σ+)');
-  }
-  if (absZ >= 3.0) {
-    confirmations++;
-    confirmationDetails.push('🔥 Ultra extreme (3σ+)');
-  }
-  if (isFundingReversing) {
-    confirmations++;
-    confirmationDetails.push('Funding trend reversing');
-  }
-  
-  // Historical extreme check
-  const historicalMax = Math.max(...lookback);
-  const historicalMin = Math.min(...lookback);
-  if (currentRate > historicalMax * 0.9 || currentRate < historicalMin * 0.9) {
-    confirmations++;
-    confirmationDetails.push('Near historical extreme');
-  }
-
-  // Determine signal
-  let signal: SignalType = 'NEUTRAL';
-  
-  if (zScore >= 3.0 && confirmations >= 5) signal = 'ULTRA_SHORT';
-  else if (zScore >= 2.5 && confirmations >= 4) signal = 'STRONG_SHORT';
-  else if (zScore >= 2.0 && confirmations >= 3) signal = 'SHORT';
-  else if (zScore >= 1.8 && confirmations >= 2) signal = 'SHORT';
-  else if (zScore <= -3.0 && confirmations >= 5) signal = 'ULTRA_LONG';
-  else if (zScore <= -2.5 && confirmations >= 4) signal = 'STRONG_LONG';
-  else if (zScore <= -2.0 && confirmations >= 3) signal = 'LONG';
-  else if (zScore <= -1.8 && confirmations >= 2) signal = 'LONG';
-
-  // Calculate edge score (0-100)
-  const edgeScore = Math.min(100, (absZ * 15) + (confirmations * 12));
-
-  // Estimate win probability
-  let winProbability = 0.50;
-  winProbability += Math.min(0.15, absZ * 0.05);
-  winProbability += confirmations * 0.03;
-  if (isFundingReversing) winProbability += 0.05;
-  winProbability = Math.min(0.80, winProbability);
-
-  return {
-    symbol,
-    price: currentPrice,
-    currentRate,
-    mean,
-    std,
-    zScore,
-    signal,
-    confirmations,
-    confirmationDetails,
-    edgeScore,
-    winProbability,
-    isFundingReversing,
-    timestamp: new Date(),
-  };
+  return evaluateSignal(
+    { symbol, history: fundingRates, price: currentPrice, market, historyIntervalHours: fundingIntervalHours, candles },
+    createStrategyConfig({ ...config, lookbackPeriods }),
+    calibration
+  );
 }
 
 /**
  * Calculate position size based on risk profile and signal strength
+ * The sizing method is the risk profile's unless overridden
  */
 export function calculatePosition(
   analysis: Analysis,
   capital: number,
-  riskMode: RiskMode
+  riskMode: RiskMode,
+  sizingMethod?: SizingMethod
 ): PositionSize {
   const profile = RISK_PROFILES[riskMode];
 
@@ -193,11 +107,26 @@ export function calculatePosition(
   const effectiveRisk = Math.min(profile.risk * riskMultiplier, 0.10); // Cap at 10%
   const effectiveLeverage = Math.min(Math.round(profile.leverage * leverageMultiplier), 15); // Cap at 15x
 
-  const riskAmount = capital * effectiveRisk;
-  const stopLossPercent = 0.015; // 1.5% stop loss
+  // Volatility-scaled stop - a quiet market gets a tighter stop and a larger position
+  const atrPercent = analysis.priceAction?.atrPercent;
+  const stopMethod = atrPercent && atrPercent > 0 ? 'atr' : 'fixed';
+  const stopLossPercent = stopMethod === 'atr'
+    ? Math.min(MAX_STOP_LOSS_PERCENT, Math.max(MIN_STOP_LOSS_PERCENT, ATR_STOP_MULTIPLE * (atrPercent as number)))
+    : FIXED_STOP_LOSS_PERCENT;
   const takeProfitPercent = stopLossPercent * 2; // 2:1 reward:risk
 
-  const positionSize = riskAmount / stopLossPercent;
+  // Kelly only bets on fitted probabilities - the formula estimate is not a probability
+  const dailyVolatility = analysis.priceAction?.dailyVolatility ?? null;
+  const sizing = sizePosition({
+    capital,
+    riskPercent: effectiveRisk,
+    stopLossPercent,
+    dailyVolatility,
+    winProbability: analysis.probabilitySource === 'calibrated' ? analysis.winProbability : null,
+    payoffRatio: takeProfitPercent / stopLossPercent,
+  }, SIZING_PROFILES[riskMode], sizingMethod);
+  const riskAmount = sizing.riskAmount;
+  const positionSize = sizing.notional;
   const isLong = analysis.signal.includes('LONG');
 
   const stopLossPrice = isLong
@@ -216,9 +145,13 @@ export function calculatePosition(
     positionSize: Math.min(positionSize, capital * 0.4), // Max 40% of capital
     leverage: effectiveLeverage,
     riskAmount,
-    riskPercent: effectiveRisk,
+    riskPercent: sizing.riskPercent,
     stopLossPercent,
     takeProfitPercent,
+    stopMethod,
+    sizingMethod: sizing.sizingMethod,
+    dailyVolatility,
+    kellyStake: sizing.kellyStake,
     stopLossPrice,
     takeProfitPrice,
     expectedValue,
@@ -0,0 +1,103 @@
+/**
+ * Cross-venue funding arbitrage
+ *
+ * Delta-neutral pair per asset: long the perp on the venue with the lower hourly
+ * funding rate, short it where the rate is higher. The position earns the hourly
+ * spread every hour it is held, minus taker fees to open and close both legs.
+ *
+ * All rates are relative fractions per hour (see VenueFunding.hourlyRate).
+ */
+
+import { VenueFees, VenueFunding, VenueId } from './exchanges/types';
+import { HOURS_PER_YEAR, annualizeHourlyRate } from './funding-interval';
+
+export interface VenuePairSpread {
+  symbol: string;
+  longVenue: VenueId;         // Lower funding - the long pays less (or receives)
+  shortVenue: VenueId;        // Higher funding - the short receives more
+  longHourlyRate: number;
+  shortHourlyRate: number;
+  hourlySpread: number;       // shortHourlyRate - longHourlyRate
+  annualizedSpread: number;   // Percent per year, before fees
+  roundTripFees: number;      // Open and close both legs at taker, fraction of one leg's notional
+  holdHours: number;
+  netReturn: number;          // hourlySpread * holdHours - roundTripFees
+  netAnnualized: number;      // Percent per year over the holding period
+  breakevenHours: number | null;  // Hours of spread needed to cover fees
+}
+
+export interface AssetSpreadTable {
+  symbol: string;
+  venues: VenueFunding[];     // Lowest hourly rate first
+  spreads: VenuePairSpread[]; // Every venue pair, best net return first
+}
+
+/**
+ * Spread for one asset between two venues - the venue with the lower rate is the long leg
+ */
+export function calculatePairSpread(
+  a: VenueFunding,
+  b: VenueFunding,
+  fees: Partial<Record<VenueId, VenueFees>>,
+  holdHours: number
+): VenuePairSpread {
+  const [long, short] = a.hourlyRate <= b.hourlyRate ? [a, b] : [b, a];
+  const hourlySpread = short.hourlyRate - long.hourlyRate;
+  const roundTripFees = 2 * ((fees[long.venue]?.taker ?? 0) + (fees[short.venue]?.taker ?? 0));
+  const netReturn = hourlySpread * holdHours - roundTripFees;
+
+  return {
+    symbol: long.symbol,
+    longVenue: long.venue,
+    shortVenue: short.venue,
+    longHourlyRate: long.hourlyRate,
+    shortHourlyRate: short.hourlyRate,
+    hourlySpread,
+    annualizedSpread: annualizeHourlyRate(hourlySpread),
+    roundTripFees,
+    holdHours,
+    netReturn,
+    netAnnualized: holdHours > 0 ? (netReturn / holdHours) * HOURS_PER_YEAR * 100 : 0,
+    breakevenHours: hourlySpread > 0 ? roundTripFees / hourlySpread : null,
+  };
+}
+
+/**
+ * Per-asset tables of every venue's rate and every venue pair's spread
+ * Assets listed on fewer than two venues have no spreads
+ */
+export function buildSpreadTables(
+  funding: VenueFunding[],
+  fees: Partial<Record<VenueId, VenueFees>>,
+  holdHours: number
+): AssetSpreadTable[] {
+  const bySymbol = new Map<string, VenueFunding[]>();
+  for (const entry of funding) {
+    bySymbol.set(entry.symbol, [...(bySymbol.get(entry.symbol) ?? []), entry]);
+  }
+
+  return Array.from(bySymbol.entries()).map(([symbol, entries]) => {
+    const venues = [...entries].sort((a, b) => a.hourlyRate - b.hourlyRate);
+    const spreads: VenuePairSpread[] = [];
+    for (let i = 0; i < venues.length; i++) {
+      for (let j = i + 1; j < venues.length; j++) {
+        spreads.push(calculatePairSpread(venues[i], venues[j], fees, holdHours));
+      }
+    }
+    spreads.sort((a, b) => b.netReturn - a.netReturn);
+    return { symbol, venues, spreads };
+  });
+}
+
+/**
+ * Every pair across all assets with a net return of at least minNetAnnualized, best first
+ */
+export function rankOpportunities(
+  tables: AssetSpreadTable[],
+  minNetAnnualized: number = 0
+): VenuePairSpread[] {
+  return tables
+    .flatMap(table => table.spreads)
+    .filter(spread => spread.netAnnualized >= minNetAnnualized)
+    .sort((a, b) => b.netAnnualized - a.netAnnualized);
+}
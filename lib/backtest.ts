@@ -0,0 +1,507 @@
+/**
+ * Backtesting Engine
+ *
+ * Replays a funding rate + price history period by period:
+ * - At each period, analyzeAsset only sees data up to and including that period
+ * - Candles built from the periods' prices feed the trend filter and ATR stops
+ * - Entries use the SL/TP prices from calculatePosition
+ * - SL/TP exits are checked against the following periods' high/low, then the exit rules
+ *   in exits.ts (funding normalization, scale out, max hold, trailing stop)
+ * - Every exit is a leg tagged with its reason, so results can be attributed by exit type
+ * - Funding carry and fees are charged while a trade is open
+ * - compareEstimators replays the same data once per z-score estimator
+ */
+
+import { Candle, FundingRate } from './kraken';
+import { analyzeAsset, calculatePosition, RISK_PROFILES, RiskMode, SignalType } from './analysis';
+import { ZScoreEstimator, ZSCORE_ESTIMATORS } from './estimators';
+import { DEFAULT_STRATEGY_CONFIG, TrendFilterMode } from './strategy';
+import { candleWindow } from './price-action';
+import { SizingMethod } from './risk';
+import { attributeExits, DEFAULT_EXIT_CONFIG, ExitAttribution, ExitConfig, ExitReason, ExitState, planExit } from './exits';
+
+export interface BacktestPeriod {
+  timestamp: string;
+  price: number;               // Close / mark price for the period
+  high?: number;               // Optional intra-period range for SL/TP checks
+  low?: number;
+  fundingRate: number;
+  relativeFundingRate: number;
+}
+
+export interface BacktestConfig {
+  symbol: string;
+  capital: number;
+  riskModes: RiskMode[];
+  lookbackPeriods: number;
+  feeRate: number;             // Charged on notional at entry and exit
+  estimator: ZScoreEstimator;
+  trendFilter: TrendFilterMode;
+  sizingMethod: SizingMethod | null;   // null = each risk profile's own method
+  windowPeriods: number[];     // Window agreement windows - [] = off, as in the signal routes
+  exits: ExitConfig;
+}
+
+export type TradeExitReason = ExitReason;
+
+export interface TradeExit {
+  reason: ExitReason;
+  time: string;
+  price: number;
+  size: number;                // Base units closed
+  pricePnl: number;
+  fees: number;                // Exit fee
+  pnl: number;                 // Net - funding and the entry fee are shared out by size
+}
+
+export interface BacktestTrade {
+  side: 'long' | 'short';
+  signal: SignalType;
+  zScore: number;
+  confirmations: number;
+  winProbability: number;
+  sizingMethod: SizingMethod;  // Method used - fixedStop when the chosen one lacks inputs
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  exitReason: TradeExitReason;        // Of the final exit
+  exits: TradeExit[];          // Scale outs, then the final exit
+  size: number;                // Base units at entry
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  riskAmount: number;
+  pricePnl: number;
+  fundingPnl: number;
+  fees: number;
+  pnl: number;                 // Net of funding and fees
+  rMultiple: number;           // pnl / riskAmount
+  periodsHeld: number;
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+}
+
+export interface BacktestMetrics {
+  startingCapital: number;
+  endingCapital: number;
+  totalReturn: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  profitFactor: number;
+  maxDrawdown: number;         // Fraction of peak equity
+  sharpe: number;              // Annualized from per-period equity returns
+  fundingPnl: number;
+  fees: number;
+  byExitReason: Partial<Record<ExitReason, ExitAttribution>>;   // Per exit leg, scale outs included
+}
+
+export interface BacktestResult {
+  riskMode: RiskMode;
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestReport {
+  symbol: string;
+  periods: number;
+  from: string;
+  to: string;
+  lookbackPeriods: number;
+  estimator: ZScoreEstimator;
+  trendFilter: TrendFilterMode;
+  sizingMethod: SizingMethod | null;
+  windowPeriods: number[];
+  exits: ExitConfig;
+  results: BacktestResult[];
+}
+
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'symbol'> = {
+  capital: 5000,
+  riskModes: ['LOW', 'MEDIUM', 'HIGH', 'ULTRA'],
+  lookbackPeriods: 90,
+  feeRate: 0.0005,  // Kraken Futures taker fee
+  estimator: 'standard',
+  trendFilter: DEFAULT_STRATEGY_CONFIG.trendFilter,
+  sizingMethod: null,
+  windowPeriods: DEFAULT_STRATEGY_CONFIG.windowPeriods,
+  exits: DEFAULT_EXIT_CONFIG,
+};
+
+interface OpenTrade {
+  trade: Omit<BacktestTrade, 'exitTime' | 'exitPrice' | 'exitReason' | 'exits' | 'pricePnl' | 'pnl' | 'rMultiple'>;
+  direction: 1 | -1;
+  exitState: ExitState;
+  entryFee: number;
+  legs: Omit<TradeExit, 'pnl'>[];
+}
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Bad fixture or config - the caller's input, not a backtester failure
+ */
+export class BacktestInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestInputError';
+  }
+}
+
+function isValidPeriod(period: BacktestPeriod): boolean {
+  return Boolean(period && period.timestamp) &&
+    !isNaN(new Date(period.timestamp).getTime()) &&
+    period.price > 0 &&
+    Number.isFinite(period.relativeFundingRate);
+}
+
+/**
+ * Run the backtest for every configured risk mode
+ * Throws BacktestInputError for an invalid lookback, invalid periods or too few periods
+ */
+export function runBacktest(
+  periods: BacktestPeriod[],
+  config: Partial<BacktestConfig> & { symbol: string }
+): BacktestReport {
+  const fullConfig: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+  if (!Number.isInteger(fullConfig.lookbackPeriods) || fullConfig.lookbackPeriods < 2) {
+    throw new BacktestInputError('lookbackPeriods must be an integer of at least 2');
+  }
+  if (!Array.isArray(fullConfig.windowPeriods) || fullConfig.windowPeriods.some(w => !Number.isInteger(w) || w < 2)) {
+    throw new BacktestInputError('windowPeriods must be integers of at least 2');
+  }
+  const invalid = periods.findIndex(p => !isValidPeriod(p));
+  if (invalid >= 0) {
+    throw new BacktestInputError(`Invalid period at index ${invalid}: needs a timestamp, a positive price and a relativeFundingRate`);
+  }
+
+  const sorted = [...periods]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  if (sorted.length <= fullConfig.lookbackPeriods) {
+    throw new BacktestInputError(
+      `Backtest needs more than ${fullConfig.lookbackPeriods} periods, got ${sorted.length}`
+    );
+  }
+
+  return {
+    symbol: fullConfig.symbol,
+    periods: sorted.length,
+    from: sorted[0].timestamp,
+    to: sorted[sorted.length - 1].timestamp,
+    lookbackPeriods: fullConfig.lookbackPeriods,
+    estimator: fullConfig.estimator,
+    trendFilter: fullConfig.trendFilter,
+    sizingMethod: fullConfig.sizingMethod,
+    windowPeriods: fullConfig.windowPeriods,
+    exits: fullConfig.exits,
+    results: fullConfig.riskModes.map(mode => runRiskMode(sorted, fullConfig, mode)),
+  };
+}
+
+/**
+ * Run the same backtest once per estimator, for a side by side comparison
+ */
+export function compareEstimators(
+  periods: BacktestPeriod[],
+  config: Partial<BacktestConfig> & { symbol: string },
+  estimators: ZScoreEstimator[] = ZSCORE_ESTIMATORS
+): BacktestReport[] {
+  return estimators.map(estimator => runBacktest(periods, { ...config, estimator }));
+}
+
+function runRiskMode(periods: BacktestPeriod[], config: BacktestConfig, riskMode: RiskMode): BacktestResult {
+  const profile = RISK_PROFILES[riskMode];
+  const rates: FundingRate[] = periods.map(p => ({
+    timestamp: p.timestamp,
+    fundingRate: p.fundingRate,
+    relativeFundingRate: p.relativeFundingRate,
+  }));
+  const candles = toCandles(periods);
+  const candleLimit = candleWindow(DEFAULT_STRATEGY_CONFIG);
+
+  let equity = config.capital;
+  let open: OpenTrade | null = null;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  // Close size base units - the trade is recorded once nothing is left open
+  const exitTrade = (period: BacktestPeriod, exitPrice: number, size: number, reason: ExitReason) => {
+    if (!open) return;
+    const { trade, direction, exitState, entryFee, legs } = open;
+    const pricePnl = size * (exitPrice - trade.entryPrice) * direction;
+    const exitFee = size * exitPrice * config.feeRate;
+
+    // Entry fee and funding were already booked while the trade was open
+    equity += pricePnl - exitFee;
+    trade.fees += exitFee;
+    legs.push({ reason, time: period.timestamp, price: exitPrice, size, pricePnl, fees: exitFee });
+    exitState.size -= size;
+    if (reason === 'SCALE_OUT') exitState.scaledOut = true;
+    if (exitState.size > trade.size * 1e-9) return;
+
+    const shared = trade.fundingPnl - entryFee;
+    const exits = legs.map(leg => ({ ...leg, pnl: leg.pricePnl - leg.fees + shared * leg.size / trade.size }));
+    const totalPricePnl = legs.reduce((sum, leg) => sum + leg.pricePnl, 0);
+    const pnl = totalPricePnl + trade.fundingPnl - trade.fees;
+    trades.push({
+      ...trade,
+      exitTime: period.timestamp,
+      exitPrice,
+      exitReason: reason,
+      exits,
+      pricePnl: totalPricePnl,
+      pnl,
+      rMultiple: trade.riskAmount > 0 ? pnl / trade.riskAmount : 0,
+    });
+    open = null;
+  };
+
+  for (let i = config.lookbackPeriods - 1; i < periods.length; i++) {
+    const period = periods[i];
+
+    // Only data available at this period - no look-ahead
+    const analysis = analyzeAsset(
+      config.symbol,
+      rates.slice(0, i + 1),
+      period.price,
+      config.lookbackPeriods,
+      undefined,
+      {
+        estimator: config.estimator,
+        trendFilter: config.trendFilter,
+        windowPeriods: config.windowPeriods,
+        windowAgreementConfirmation: config.windowPeriods.length > 0,
+      },
+      undefined,
+      undefined,
+      candles.slice(Math.max(0, i + 1 - candleLimit), i + 1)
+    );
+
+    if (open) {
+      const { trade, direction, exitState } = open;
+      trade.periodsHeld++;
+
+      // Funding for this period on what is still open - longs pay positive funding
+      const funding = -direction * exitState.size * period.price * period.relativeFundingRate;
+      trade.fundingPnl += funding;
+      equity += funding;
+
+      const high = period.high ?? period.price;
+      const low = period.low ?? period.price;
+      const hitStop = direction > 0 ? low <= trade.stopLossPrice : high >= trade.stopLossPrice;
+      const hitTarget = direction > 0 ? high >= trade.takeProfitPrice : low <= trade.takeProfitPrice;
+
+      // If both are inside the range we can't know the order - assume the stop (conservative)
+      if (hitStop) exitTrade(period, trade.stopLossPrice, exitState.size, 'STOP_LOSS');
+      else if (hitTarget) exitTrade(period, trade.takeProfitPrice, exitState.size, 'TAKE_PROFIT');
+      else {
+        const { decision, bestPrice } = planExit(exitState, {
+          timestamp: period.timestamp,
+          price: period.price,
+          high: period.high,
+          low: period.low,
+          zScore: analysis ? analysis.zScore : null,
+        }, config.exits);
+        exitState.bestPrice = bestPrice;
+        if (decision) exitTrade(period, decision.price, decision.size, decision.reason);
+      }
+    }
+
+    if (!open && i < periods.length - 1) {
+      if (
+        analysis &&
+        analysis.signal !== 'NEUTRAL' &&
+        Math.abs(analysis.zScore) >= profile.minZ &&
+        analysis.confirmations >= profile.minConfirmations
+      ) {
+        const position = calculatePosition(analysis, equity, riskMode, config.sizingMethod ?? undefined);
+        // Kelly sizes a trade without an edge at zero
+        if (position.positionSize > 0) {
+          const size = position.positionSize / period.price;
+          const entryFee = position.positionSize * config.feeRate;
+          const side = analysis.signal.includes('LONG') ? 'long' : 'short';
+          equity -= entryFee;
+
+          open = {
+            direction: side === 'long' ? 1 : -1,
+            exitState: {
+              side,
+              entryPrice: period.price,
+              entryTime: period.timestamp,
+              initialSize: size,
+              size,
+              bestPrice: period.price,
+              scaledOut: false,
+            },
+            entryFee,
+            legs: [],
+            trade: {
+              side,
+              signal: analysis.signal,
+              zScore: analysis.zScore,
+              confirmations: analysis.confirmations,
+              winProbability: analysis.winProbability,
+              sizingMethod: position.sizingMethod,
+              entryTime: period.timestamp,
+              entryPrice: period.price,
+              size,
+              stopLossPrice: position.stopLossPrice,
+              takeProfitPrice: position.takeProfitPrice,
+              riskAmount: position.riskAmount,
+              fundingPnl: 0,
+              fees: entryFee,
+              periodsHeld: 0,
+            },
+          };
+        }
+      }
+    }
+
+    // Mark open trade to market for the equity curve
+    const markToMarket = open
+      ? open.exitState.size * (period.price - open.trade.entryPrice) * open.direction
+      : 0;
+    equityCurve.push({ timestamp: period.timestamp, equity: equity + markToMarket });
+  }
+
+  if (open) {
+    const last = periods[periods.length - 1];
+    exitTrade(last, last.price, open.exitState.size, 'END_OF_DATA');
+    equityCurve[equityCurve.length - 1].equity = equity;
+  }
+
+  return {
+    riskMode,
+    metrics: calculateMetrics(config.capital, trades, equityCurve),
+    trades,
+    equityCurve,
+  };
+}
+
+/**
+ * One candle per period - opens at the previous period's price, high / low default to the open and close
+ */
+function toCandles(periods: BacktestPeriod[]): Candle[] {
+  return periods.map((period, i) => {
+    const open = i > 0 ? periods[i - 1].price : period.price;
+    return {
+      timestamp: period.timestamp,
+      open,
+      high: Math.max(period.high ?? period.price, open, period.price),
+      low: Math.min(period.low ?? period.price, open, period.price),
+      close: period.price,
+      volume: 0,
+    };
+  });
+}
+
+/**
+ * Win rate, profit factor, drawdown and Sharpe from trades and equity curve
+ */
+export function calculateMetrics(
+  startingCapital: number,
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[]
+): BacktestMetrics {
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.pnl, 0));
+  const endingCapital = equityCurve.length > 0
+    ? equityCurve[equityCurve.length - 1].equity
+    : startingCapital;
+
+  // Max drawdown from running peak
+  let peak = startingCapital;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+  }
+
+  // Sharpe from per-period returns, annualized by the average period length
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const previous = equityCurve[i - 1].equity;
+    if (previous > 0) returns.push(equityCurve[i].equity / previous - 1);
+  }
+  let sharpe = 0;
+  if (returns.length > 1) {
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    const span = new Date(equityCurve[equityCurve.length - 1].timestamp).getTime() -
+      new Date(equityCurve[0].timestamp).getTime();
+    const periodsPerYear = span > 0 ? MS_PER_YEAR / (span / (equityCurve.length - 1)) : 0;
+    sharpe = std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0;
+  }
+
+  return {
+    startingCapital,
+    endingCapital,
+    totalReturn: (endingCapital - startingCapital) / startingCapital,
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    maxDrawdown,
+    sharpe,
+    fundingPnl: trades.reduce((sum, t) => sum + t.fundingPnl, 0),
+    fees: trades.reduce((sum, t) => sum + t.fees, 0),
+    byExitReason: attributeExits(trades.flatMap(t => t.exits)),
+  };
+}
+
+/**
+ * Parse a CSV fixture
+ * Header: timestamp,price,fundingRate,relativeFundingRate[,high,low]
+ */
+export function parseBacktestCsv(text: string): BacktestPeriod[] {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map(h => h.trim());
+  const required = ['timestamp', 'price', 'fundingRate', 'relativeFundingRate'];
+  for (const column of required) {
+    if (!header.includes(column)) {
+      throw new BacktestInputError(`CSV fixture missing column: ${column}`);
+    }
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(',').map(c => c.trim());
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => { row[column] = cells[i]; });
+
+    const period: BacktestPeriod = {
+      timestamp: row.timestamp,
+      price: Number(row.price),
+      fundingRate: Number(row.fundingRate),
+      relativeFundingRate: Number(row.relativeFundingRate),
+    };
+    if (row.high) period.high = Number(row.high);
+    if (row.low) period.low = Number(row.low);
+
+    if (!period.timestamp || !(period.price > 0) || isNaN(period.relativeFundingRate)) {
+      throw new BacktestInputError(`Invalid CSV fixture row ${index + 2}: ${line}`);
+    }
+    return period;
+  });
+}
+
+/**
+ * Parse a JSON fixture - either an array of periods or { symbol, periods }
+ */
+export function parseBacktestJson(text: string): { symbol?: string; periods: BacktestPeriod[] } {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return { periods: data };
+  if (data && Array.isArray(data.periods)) return { symbol: data.symbol, periods: data.periods };
+  throw new BacktestInputError('JSON fixture must be an array of periods or { symbol, periods }');
+}
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Bracket, BracketOrderState, planBracketActions, validateBracket } from './brackets';
+
+function bracket(overrides: Partial<Bracket> = {}): Bracket {
+  return {
+    bracketId: 'bracket-1',
+    mode: 'live',
+    symbol: 'BTC',
+    krakenSymbol: 'PF_XBTUSD',
+    side: 'buy',
+    entryOrderId: 'entry',
+    stopLossPrice: 95,
+    takeProfitPrice: 110,
+    legSize: 0,
+    status: 'pending',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function state(overrides: Partial<BracketOrderState> = {}): BracketOrderState {
+  return {
+    entryFilled: 0,
+    entryOpen: true,
+    stopLossFilled: 0,
+    stopLossOpen: false,
+    takeProfitFilled: 0,
+    takeProfitOpen: false,
+    ...overrides,
+  };
+}
+
+test('nothing to do while the entry is unfilled', () => {
+  assert.deepEqual(planBracketActions(bracket(), state()), []);
+});
+
+test('places both legs once the entry fills', () => {
+  assert.deepEqual(planBracketActions(bracket(), state({ entryFilled: 1, entryOpen: false })), [
+    { type: 'placeLeg', leg: 'stopLoss', size: 1 },
+    { type: 'placeLeg', leg: 'takeProfit', size: 1 },
+    { type: 'setStatus', status: 'active' },
+  ]);
+});
+
+test('places only the leg that failed to place last time', () => {
+  const partial = bracket({ stopLossOrderId: 'sl', legSize: 1 });
+  assert.deepEqual(planBracketActions(partial, state({ entryFilled: 1, entryOpen: false, stopLossOpen: true })), [
+    { type: 'placeLeg', leg: 'takeProfit', size: 1 },
+    { type: 'setStatus', status: 'active' },
+  ]);
+});
+
+test('resizes placed legs before placing the missing one on a larger fill', () => {
+  const partial = bracket({ stopLossOrderId: 'sl', legSize: 1, status: 'active' });
+  assert.deepEqual(planBracketActions(partial, state({ entryFilled: 2, stopLossOpen: true })), [
+    { type: 'resizeLegs', size: 2 },
+    { type: 'placeLeg', leg: 'takeProfit', size: 2 },
+  ]);
+});
+
+test('resizes the legs as the entry fills further', () => {
+  const active = bracket({ stopLossOrderId: 'sl', takeProfitOrderId: 'tp', legSize: 1, status: 'active' });
+  assert.deepEqual(
+    planBracketActions(active, state({ entryFilled: 3, stopLossOpen: true, takeProfitOpen: true })),
+    [{ type: 'resizeLegs', size: 3 }]
+  );
+});
+
+test('a filled leg cancels its sibling and the rest of the entry (OCO)', () => {
+  const active = bracket({ stopLossOrderId: 'sl', takeProfitOrderId: 'tp', legSize: 1, status: 'active' });
+  assert.deepEqual(
+    planBracketActions(active, state({ entryFilled: 1, stopLossFilled: 1, takeProfitOpen: true })),
+    [
+      { type: 'cancel', order: 'takeProfit' },
+      { type: 'cancel', order: 'entry' },
+      { type: 'setStatus', status: 'closed', closedBy: 'stopLoss' },
+    ]
+  );
+});
+
+test('legs gone without a fill cancel the bracket', () => {
+  const active = bracket({ stopLossOrderId: 'sl', takeProfitOrderId: 'tp', legSize: 1, status: 'active' });
+  assert.deepEqual(
+    planBracketActions(active, state({ entryFilled: 1, entryOpen: false })),
+    [{ type: 'setStatus', status: 'cancelled' }]
+  );
+});
+
+test('an entry cancelled before any fill cancels the bracket', () => {
+  assert.deepEqual(planBracketActions(bracket(), state({ entryOpen: false })), [{ type: 'setStatus', status: 'cancelled' }]);
+});
+
+test('closed and cancelled brackets are left alone', () => {
+  assert.deepEqual(planBracketActions(bracket({ status: 'closed' }), state({ entryFilled: 1 })), []);
+  assert.deepEqual(planBracketActions(bracket({ status: 'cancelled' }), state({ entryFilled: 1 })), []);
+});
+
+test('validateBracket checks the legs sit either side of the entry', () => {
+  assert.equal(validateBracket('buy', { stopLossPrice: 95, takeProfitPrice: 110 }, 100), null);
+  assert.match(validateBracket('buy', { stopLossPrice: 105, takeProfitPrice: 110 }, 100)!, /either side/);
+  assert.match(validateBracket('sell', { stopLossPrice: 95, takeProfitPrice: 110 })!, /Short bracket/);
+  assert.match(validateBracket('buy', { stopLossPrice: 0, takeProfitPrice: 110 })!, /positive/);
+});
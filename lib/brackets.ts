@@ -0,0 +1,169 @@
+// Bracket orders - protective stop loss + take profit legs attached to an entry
+// Pure decision logic shared by paper (paper-broker.ts) and live (live-brackets.ts)
+//
+// Lifecycle:
+// - pending: entry placed, nothing filled yet
+// - active: legs resting, sized to the entry's filled quantity
+//   A leg that failed to place is placed again on the next sync
+// - closed: one leg filled, the other was cancelled (OCO)
+// - cancelled: entry cancelled before any fill
+
+import { OrderSide } from './kraken-private';
+
+export type BracketStatus = 'pending' | 'active' | 'closed' | 'cancelled';
+export type BracketLeg = 'stopLoss' | 'takeProfit';
+
+export interface BracketRequest {
+  stopLossPrice: number;
+  takeProfitPrice: number;
+}
+
+export interface Bracket {
+  bracketId: string;
+  mode: 'paper' | 'live';
+  symbol: string;
+  krakenSymbol: string;
+  side: OrderSide;              // Entry side - legs are on the opposite side
+  entryOrderId: string;
+  stopLossPrice: number;
+  takeProfitPrice: number;
+  stopLossOrderId?: string;
+  takeProfitOrderId?: string;
+  legSize: number;              // Current size of each leg
+  status: BracketStatus;
+  closedBy?: BracketLeg;
+  lastError?: string;           // Why the last live sync stopped - cleared by a clean sync
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Observed state of the three orders on the venue
+export interface BracketOrderState {
+  entryFilled: number;
+  entryOpen: boolean;
+  stopLossFilled: number;
+  stopLossOpen: boolean;
+  takeProfitFilled: number;
+  takeProfitOpen: boolean;
+}
+
+export type BracketAction =
+  | { type: 'placeLeg'; leg: BracketLeg; size: number }
+  | { type: 'resizeLegs'; size: number }
+  | { type: 'cancel'; order: 'entry' | BracketLeg }
+  | { type: 'setStatus'; status: BracketStatus; closedBy?: BracketLeg };
+
+/**
+ * Check the protective prices sit on the right side of the entry
+ * Returns an error message, or null when valid
+ */
+export function validateBracket(
+  side: OrderSide,
+  bracket: BracketRequest,
+  referencePrice?: number
+): string | null {
+  const { stopLossPrice, takeProfitPrice } = bracket;
+
+  if (!(typeof stopLossPrice === 'number' && stopLossPrice > 0) ||
+      !(typeof takeProfitPrice === 'number' && takeProfitPrice > 0)) {
+    return 'Bracket requires positive stopLossPrice and takeProfitPrice';
+  }
+
+  if (side === 'buy' && stopLossPrice >= takeProfitPrice) {
+    return 'Long bracket needs stopLossPrice below takeProfitPrice';
+  }
+  if (side === 'sell' && stopLossPrice <= takeProfitPrice) {
+    return 'Short bracket needs stopLossPrice above takeProfitPrice';
+  }
+
+  if (referencePrice !== undefined) {
+    const below = side === 'buy' ? stopLossPrice : takeProfitPrice;
+    const above = side === 'buy' ? takeProfitPrice : stopLossPrice;
+    if (below >= referencePrice || above <= referencePrice) {
+      return `Bracket prices must be either side of the entry price ${referencePrice}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Side of the protective legs
+ */
+export function legSide(bracket: Bracket): OrderSide {
+  return bracket.side === 'buy' ? 'sell' : 'buy';
+}
+
+/**
+ * Order id of a leg, if it has been placed
+ */
+export function legOrderId(bracket: Bracket, leg: BracketLeg): string | undefined {
+  return leg === 'stopLoss' ? bracket.stopLossOrderId : bracket.takeProfitOrderId;
+}
+
+/**
+ * Record the order id of a newly placed leg
+ */
+export function setLegOrderId(bracket: Bracket, leg: BracketLeg, orderId: string): void {
+  if (leg === 'stopLoss') bracket.stopLossOrderId = orderId;
+  else bracket.takeProfitOrderId = orderId;
+}
+
+/**
+ * Order type and trigger price of a leg - the stop loss is a stop, the take profit a limit
+ */
+export function legOrderParams(
+  bracket: Bracket,
+  leg: BracketLeg
+): { orderType: 'stp' | 'lmt'; stopPrice?: number; limitPrice?: number } {
+  return leg === 'stopLoss'
+    ? { orderType: 'stp', stopPrice: bracket.stopLossPrice }
+    : { orderType: 'lmt', limitPrice: bracket.takeProfitPrice };
+}
+
+/**
+ * Decide what to do next given the observed order state
+ * - Entry (partially) filled -> place any missing leg and resize placed legs to the filled size
+ * - A leg filled -> cancel the other leg and any unfilled entry (OCO)
+ * - Entry gone with no fills, or both legs gone unfilled -> bracket cancelled
+ */
+export function planBracketActions(bracket: Bracket, state: BracketOrderState): BracketAction[] {
+  if (bracket.status === 'closed' || bracket.status === 'cancelled') return [];
+
+  const actions: BracketAction[] = [];
+  const triggered: BracketLeg | null =
+    state.stopLossFilled > 0 ? 'stopLoss' :
+    state.takeProfitFilled > 0 ? 'takeProfit' :
+    null;
+
+  if (triggered) {
+    const sibling: BracketLeg = triggered === 'stopLoss' ? 'takeProfit' : 'stopLoss';
+    const siblingOpen = sibling === 'stopLoss' ? state.stopLossOpen : state.takeProfitOpen;
+    const triggeredOpen = triggered === 'stopLoss' ? state.stopLossOpen : state.takeProfitOpen;
+
+    if (siblingOpen) actions.push({ type: 'cancel', order: sibling });
+    if (state.entryOpen) actions.push({ type: 'cancel', order: 'entry' });
+    if (!triggeredOpen) actions.push({ type: 'setStatus', status: 'closed', closedBy: triggered });
+    return actions;
+  }
+
+  const legs: BracketLeg[] = ['stopLoss', 'takeProfit'];
+  const missing = legs.filter(leg => !legOrderId(bracket, leg));
+  const hasLegs = missing.length < legs.length;
+
+  if (hasLegs && !state.stopLossOpen && !state.takeProfitOpen) {
+    // Placed legs gone without filling - cancelled externally or position closed by hand
+    if (state.entryOpen) actions.push({ type: 'cancel', order: 'entry' });
+    actions.push({ type: 'setStatus', status: 'cancelled' });
+  } else if (state.entryFilled > 0 && (missing.length > 0 || state.entryFilled !== bracket.legSize)) {
+    if (hasLegs && state.entryFilled !== bracket.legSize) {
+      actions.push({ type: 'resizeLegs', size: state.entryFilled });
+    }
+    for (const leg of missing) actions.push({ type: 'placeLeg', leg, size: state.entryFilled });
+    if (bracket.status === 'pending') actions.push({ type: 'setStatus', status: 'active' });
+  } else if (!state.entryOpen && state.entryFilled === 0) {
+    actions.push({ type: 'setStatus', status: 'cancelled' });
+  }
+
+  return actions;
+}
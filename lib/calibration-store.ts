@@ -0,0 +1,36 @@
+// Calibration table persistence
+// Fitted tables are saved as JSON and loaded by the API routes at runtime
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CalibrationTable } from './calibration';
+
+/**
+ * Calibration file location - override with CALIBRATION_PATH
+ */
+export function getCalibrationPath(): string {
+  return process.env.CALIBRATION_PATH || path.join(process.cwd(), '.data', 'calibration.json');
+}
+
+/**
+ * Load the fitted table, or null if none has been fitted yet
+ */
+export async function loadCalibration(): Promise<CalibrationTable | null> {
+  try {
+    const raw = await fs.readFile(getCalibrationPath(), 'utf8');
+    return JSON.parse(raw) as CalibrationTable;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    console.error('Failed to load calibration table:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a fitted table
+ */
+export async function saveCalibration(table: CalibrationTable): Promise<void> {
+  const file = getCalibrationPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(table, null, 2), 'utf8');
+}
@@ -0,0 +1,249 @@
+/**
+ * Win Probability Calibration
+ *
+ * Fits winProbability and edgeScore from realized trade outcomes
+ * (backtest trades or closed paper trades) instead of hardcoded formulas:
+ * - Logistic regression of win/loss on |z| and confirmation count
+ * - Outcomes are grouped into |z| x confirmation buckets
+ * - Buckets with too few samples fall back to the formula in analyzeAsset
+ *
+ * Pure functions only - loading and saving lives in calibration-store.ts
+ */
+
+export interface CalibrationOutcome {
+  zScore: number;
+  confirmations: number;
+  won: boolean;
+  rMultiple?: number;          // pnl / risk, when the risk amount is known
+}
+
+export interface CalibrationBucket {
+  zMin: number;
+  zMax: number | null;         // null = open ended
+  confirmationsMin: number;
+  confirmationsMax: number | null;
+  samples: number;
+  wins: number;
+  empiricalWinRate: number;
+  winProbability: number;      // Fitted
+  payoffRatio: number;         // Average win R / average loss R
+  edgeScore: number;
+}
+
+export interface CalibrationTable {
+  version: 1;
+  fittedAt: string;
+  source: string;
+  totalSamples: number;
+  minSamples: number;          // Minimum total outcomes before the table is used at all
+  minBucketSamples: number;    // Minimum outcomes in a bucket before its probability is used
+  coefficients: { intercept: number; absZ: number; confirmations: number };
+  buckets: CalibrationBucket[];
+}
+
+export interface CalibratedProbability {
+  winProbability: number;
+  edgeScore: number;
+  calibrationSamples: number;  // Outcomes behind this probability (0 = formula fallback)
+  probabilitySource: 'calibrated' | 'formula';
+}
+
+// Bucket edges - match the confirmation thresholds in analyzeAsset
+export const Z_BUCKET_EDGES = [1.8, 2.0, 2.5, 3.0];
+export const CONFIRMATION_BUCKET_EDGES = [0, 3, 4, 5];
+
+const DEFAULT_MIN_SAMPLES = 50;
+const DEFAULT_MIN_BUCKET_SAMPLES = 10;
+const DEFAULT_PAYOFF_RATIO = 2;  // calculatePosition uses 2:1 reward:risk
+const RIDGE = 0.01;
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function bucketIndex(value: number, edges: number[]): number {
+  let index = 0;
+  for (let i = 0; i < edges.length; i++) {
+    if (value >= edges[i]) index = i;
+  }
+  return index;
+}
+
+/**
+ * Solve a small linear system with Gaussian elimination
+ */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-12) return new Array(n).fill(0);
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit logistic regression P(win) = sigmoid(b0 + b1*|z| + b2*confirmations)
+ * Newton-Raphson with a small ridge penalty to keep sparse data stable
+ */
+function fitLogistic(outcomes: CalibrationOutcome[]): number[] {
+  let beta = [0, 0, 0];
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const gradient = [0, 0, 0];
+    const hessian = [[RIDGE, 0, 0], [0, RIDGE, 0], [0, 0, RIDGE]];
+
+    for (const outcome of outcomes) {
+      const x = [1, Math.abs(outcome.zScore), outcome.confirmations];
+      const p = sigmoid(beta[0] * x[0] + beta[1] * x[1] + beta[2] * x[2]);
+      const y = outcome.won ? 1 : 0;
+      const w = p * (1 - p);
+      for (let i = 0; i < 3; i++) {
+        gradient[i] += (y - p) * x[i];
+        for (let j = 0; j < 3; j++) hessian[i][j] += w * x[i] * x[j];
+      }
+    }
+    for (let i = 0; i < 3; i++) gradient[i] -= RIDGE * beta[i];
+
+    const step = solve(hessian, gradient);
+    beta = beta.map((b, i) => b + step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-8) break;
+  }
+
+  return beta;
+}
+
+/**
+ * Edge score (0-100) as the Kelly fraction for the fitted probability and payoff
+ */
+function calibratedEdgeScore(winProbability: number, payoffRatio: number): number {
+  if (payoffRatio <= 0) return 0;
+  const kelly = (winProbability * payoffRatio - (1 - winProbability)) / payoffRatio;
+  return Math.max(0, Math.min(100, kelly * 100));
+}
+
+function averagePayoff(outcomes: CalibrationOutcome[]): number | null {
+  const withR = outcomes.filter(o => o.rMultiple !== undefined);
+  const wins = withR.filter(o => o.won).map(o => o.rMultiple as number);
+  const losses = withR.filter(o => !o.won).map(o => Math.abs(o.rMultiple as number));
+  if (wins.length === 0 || losses.length === 0) return null;
+
+  const avgWin = wins.reduce((a, b) => a + b, 0) / wins.length;
+  const avgLoss = losses.reduce((a, b) => a + b, 0) / losses.length;
+  return avgLoss > 0 ? avgWin / avgLoss : null;
+}
+
+/**
+ * Fit a calibration table from realized outcomes
+ */
+export function fitCalibration(
+  outcomes: CalibrationOutcome[],
+  options: { source: string; minSamples?: number; minBucketSamples?: number }
+): CalibrationTable {
+  const [intercept, absZ, confirmations] = outcomes.length > 0 ? fitLogistic(outcomes) : [0, 0, 0];
+  const overallPayoff = averagePayoff(outcomes) ?? DEFAULT_PAYOFF_RATIO;
+  const buckets: CalibrationBucket[] = [];
+
+  Z_BUCKET_EDGES.forEach((zMin, zi) => {
+    CONFIRMATION_BUCKET_EDGES.forEach((confirmationsMin, ci) => {
+      const zMax = Z_BUCKET_EDGES[zi + 1] ?? null;
+      const confirmationsMax = CONFIRMATION_BUCKET_EDGES[ci + 1] !== undefined
+        ? CONFIRMATION_BUCKET_EDGES[ci + 1] - 1
+        : null;
+
+      const inBucket = outcomes.filter(o =>
+        bucketIndex(Math.abs(o.zScore), Z_BUCKET_EDGES) === zi &&
+        bucketIndex(o.confirmations, CONFIRMATION_BUCKET_EDGES) === ci
+      );
+      const wins = inBucket.filter(o => o.won).length;
+
+      // Evaluate the fitted curve at the bucket's average inputs (or its lower edge if empty)
+      const meanZ = inBucket.length > 0
+        ? inBucket.reduce((sum, o) => sum + Math.abs(o.zScore), 0) / inBucket.length
+        : zMin;
+      const meanConfirmations = inBucket.length > 0
+        ? inBucket.reduce((sum, o) => sum + o.confirmations, 0) / inBucket.length
+        : confirmationsMin;
+      const winProbability = sigmoid(intercept + absZ * meanZ + confirmations * meanConfirmations);
+      const payoffRatio = averagePayoff(inBucket) ?? overallPayoff;
+
+      buckets.push({
+        zMin,
+        zMax,
+        confirmationsMin,
+        confirmationsMax,
+        samples: inBucket.length,
+        wins,
+        empiricalWinRate: inBucket.length > 0 ? wins / inBucket.length : 0,
+        winProbability,
+        payoffRatio,
+        edgeScore: calibratedEdgeScore(winProbability, payoffRatio),
+      });
+    });
+  });
+
+  return {
+    version: 1,
+    fittedAt: new Date().toISOString(),
+    source: options.source,
+    totalSamples: outcomes.length,
+    minSamples: options.minSamples ?? DEFAULT_MIN_SAMPLES,
+    minBucketSamples: options.minBucketSamples ?? DEFAULT_MIN_BUCKET_SAMPLES,
+    coefficients: { intercept, absZ, confirmations },
+    buckets,
+  };
+}
+
+/**
+ * Look up the calibrated probability for a signal
+ * Returns the fallback (formula) values when the table lacks data
+ */
+export function calibrateProbability(
+  table: CalibrationTable | null | undefined,
+  zScore: number,
+  confirmations: number,
+  fallback: { winProbability: number; edgeScore: number }
+): CalibratedProbability {
+  const formula: CalibratedProbability = {
+    ...fallback,
+    calibrationSamples: 0,
+    probabilitySource: 'formula',
+  };
+
+  const absZ = Math.abs(zScore);
+  if (!table || table.totalSamples < table.minSamples || absZ < Z_BUCKET_EDGES[0]) {
+    return formula;
+  }
+
+  const zi = bucketIndex(absZ, Z_BUCKET_EDGES);
+  const ci = bucketIndex(confirmations, CONFIRMATION_BUCKET_EDGES);
+  const bucket = table.buckets.find(b =>
+    b.zMin === Z_BUCKET_EDGES[zi] && b.confirmationsMin === CONFIRMATION_BUCKET_EDGES[ci]
+  );
+
+  if (!bucket || bucket.samples < table.minBucketSamples) return formula;
+
+  return {
+    winProbability: bucket.winProbability,
+    edgeScore: bucket.edgeScore,
+    calibrationSamples: bucket.samples,
+    probabilitySource: 'calibrated',
+  };
+}
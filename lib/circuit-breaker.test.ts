@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CircuitBreakerConfig,
+  checkCircuitBreaker,
+  getCircuitBreakerState,
+  getSessionStart,
+  resetCircuitBreaker,
+  updateCircuitBreaker,
+} from './circuit-breaker';
+
+const config: CircuitBreakerConfig = { maxDailyLoss: 0.05, maxDrawdown: 0.15, sessionResetHourUtc: 0 };
+
+const at = (iso: string) => new Date(iso);
+
+async function useTempStore(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'circuit-breaker-'));
+  const previous = process.env.CIRCUIT_BREAKER_PATH;
+  process.env.CIRCUIT_BREAKER_PATH = path.join(dir, 'circuit-breaker.json');
+  t.after(async () => {
+    if (previous === undefined) delete process.env.CIRCUIT_BREAKER_PATH;
+    else process.env.CIRCUIT_BREAKER_PATH = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  return dir;
+}
+
+test('session starts at the reset hour, or the day before when earlier', () => {
+  assert.equal(getSessionStart(at('2024-03-10T15:00:00Z'), 0).toISOString(), '2024-03-10T00:00:00.000Z');
+  assert.equal(getSessionStart(at('2024-03-10T05:00:00Z'), 8).toISOString(), '2024-03-09T08:00:00.000Z');
+});
+
+test('halts on the daily loss limit and stays halted for the session', () => {
+  let state = updateCircuitBreaker(undefined, 'paper', 10000, config, at('2024-03-10T01:00:00Z'));
+  state = updateCircuitBreaker(state, 'paper', 9600, config, at('2024-03-10T02:00:00Z'));
+  assert.equal(state.status, 'ACTIVE');
+
+  state = updateCircuitBreaker(state, 'paper', 9500, config, at('2024-03-10T03:00:00Z'));
+  assert.equal(state.status, 'HALTED');
+  assert.equal(state.haltReason?.trigger, 'dailyLoss');
+  assert.equal(state.haltReason?.threshold, 9500);
+
+  // Recovering within the session does not lift the halt
+  state = updateCircuitBreaker(state, 'paper', 10000, config, at('2024-03-10T04:00:00Z'));
+  assert.equal(state.status, 'HALTED');
+  assert.equal(state.haltedAt, '2024-03-10T03:00:00.000Z');
+});
+
+test('a new session lifts a daily loss halt and rebases the open', () => {
+  let state = updateCircuitBreaker(undefined, 'paper', 10000, config, at('2024-03-10T01:00:00Z'));
+  state = updateCircuitBreaker(state, 'paper', 9400, config, at('2024-03-10T02:00:00Z'));
+  assert.equal(state.status, 'HALTED');
+
+  state = updateCircuitBreaker(state, 'paper', 9400, config, at('2024-03-11T01:00:00Z'));
+  assert.equal(state.status, 'ACTIVE');
+  assert.equal(state.haltReason, null);
+  assert.equal(state.sessionStartEquity, 9400);
+  assert.equal(state.peakEquity, 10000);
+});
+
+test('halts on drawdown from the peak across sessions and re-triggers after a roll', () => {
+  let state = updateCircuitBreaker(undefined, 'live', 10000, config, at('2024-03-10T01:00:00Z'));
+  state = updateCircuitBreaker(state, 'live', 12000, config, at('2024-03-10T12:00:00Z'));
+  state = updateCircuitBreaker(state, 'live', 11000, config, at('2024-03-11T01:00:00Z'));
+  state = updateCircuitBreaker(state, 'live', 10500, config, at('2024-03-12T01:00:00Z'));
+  assert.equal(state.status, 'ACTIVE');
+
+  state = updateCircuitBreaker(state, 'live', 10200, config, at('2024-03-13T01:00:00Z'));
+  assert.equal(state.status, 'HALTED');
+  assert.equal(state.haltReason?.trigger, 'drawdown');
+  assert.equal(state.haltReason?.threshold, 10200);
+
+  // The peak survives the session roll, so the halt comes straight back
+  state = updateCircuitBreaker(state, 'live', 10200, config, at('2024-03-14T01:00:00Z'));
+  assert.equal(state.status, 'HALTED');
+  assert.equal(state.haltReason?.trigger, 'drawdown');
+  assert.equal(state.haltedAt, '2024-03-14T01:00:00.000Z');
+});
+
+test('a manual reset rebases the peak and lifts the halt', async t => {
+  await useTempStore(t);
+
+  await checkCircuitBreaker('paper', 10000);
+  const halted = await checkCircuitBreaker('paper', 8000);
+  assert.equal(halted.status, 'HALTED');
+  assert.equal((await getCircuitBreakerState('paper'))?.status, 'HALTED');
+  assert.equal(await getCircuitBreakerState('live'), null);
+
+  const reset = await resetCircuitBreaker('paper', 8000);
+  assert.equal(reset.status, 'ACTIVE');
+  assert.equal(reset.peakEquity, 8000);
+  assert.equal((await checkCircuitBreaker('paper', 7900)).status, 'ACTIVE');
+});
+
+test('overlapping checks and resets are not lost', async t => {
+  const dir = await useTempStore(t);
+
+  await checkCircuitBreaker('paper', 10000);
+  await Promise.all([
+    checkCircuitBreaker('live', 20000),
+    resetCircuitBreaker('paper', 9000),
+    checkCircuitBreaker('live', 21000),
+  ]);
+
+  assert.equal((await getCircuitBreakerState('paper'))?.peakEquity, 9000);
+  assert.equal((await getCircuitBreakerState('live'))?.peakEquity, 21000);
+  assert.deepEqual(await fs.readdir(dir), ['circuit-breaker.json']);
+});
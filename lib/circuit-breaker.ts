@@ -0,0 +1,247 @@
+// Trading halt circuit breaker
+// Tracks account equity per trading mode and halts new risk when a bad day or
+// a deep drawdown is hit
+//
+// - Daily loss: equity down more than maxDailyLoss from the session open
+// - Drawdown: equity down more than maxDrawdown from the peak since the last reset
+//
+// A halt clears at the next session (SESSION_RESET_HOUR_UTC) or on a manual reset.
+// The drawdown peak survives session rolls, so a drawdown halt re-triggers at the
+// next session unless equity recovers - a manual reset rebases the peak.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getTickers } from './kraken';
+import { KrakenCredentials, getAccountEquity } from './kraken-private';
+import { loadLedger, accrueLedgerFunding, markToMarket, summarizeLedger } from './paper-broker';
+
+export type TradingMode = 'paper' | 'live';
+export type TradingStatus = 'ACTIVE' | 'HALTED';
+export type HaltTrigger = 'dailyLoss' | 'drawdown';
+
+export interface CircuitBreakerConfig {
+  maxDailyLoss: number;       // Fraction of session open equity, e.g. 0.05 = 5%
+  maxDrawdown: number;        // Fraction of peak equity
+  sessionResetHourUtc: number;
+}
+
+export interface HaltReason {
+  trigger: HaltTrigger;
+  message: string;
+  equity: number;
+  threshold: number;          // Equity level that was breached
+}
+
+export interface CircuitBreakerState {
+  mode: TradingMode;
+  status: TradingStatus;
+  sessionStart: string;
+  sessionStartEquity: number;
+  peakEquity: number;
+  equity: number;
+  dailyPnl: number;
+  dailyLoss: number;          // Fraction lost since the session open (0 when up)
+  drawdown: number;           // Fraction below the peak
+  haltReason: HaltReason | null;
+  haltedAt: string | null;
+  updatedAt: string;
+}
+
+type CircuitBreakerStore = Partial<Record<TradingMode, CircuitBreakerState>>;
+
+/**
+ * Limits from MAX_DAILY_LOSS, MAX_DRAWDOWN and SESSION_RESET_HOUR_UTC
+ */
+export function getCircuitBreakerConfig(): CircuitBreakerConfig {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) ? value : fallback;
+  };
+
+  return {
+    maxDailyLoss: read('MAX_DAILY_LOSS', 0.05),
+    maxDrawdown: read('MAX_DRAWDOWN', 0.15),
+    sessionResetHourUtc: read('SESSION_RESET_HOUR_UTC', 0),
+  };
+}
+
+/**
+ * Circuit breaker state location - override with CIRCUIT_BREAKER_PATH
+ */
+export function getCircuitBreakerPath(): string {
+  return process.env.CIRCUIT_BREAKER_PATH || path.join(process.cwd(), '.data', 'circuit-breaker.json');
+}
+
+async function loadStore(): Promise<CircuitBreakerStore> {
+  try {
+    const raw = await fs.readFile(getCircuitBreakerPath(), 'utf8');
+    return JSON.parse(raw) as CircuitBreakerStore;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Written to a temp file and renamed - a torn store would fail every later order check
+async function saveStore(store: CircuitBreakerStore): Promise<void> {
+  const file = getCircuitBreakerPath();
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(store, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+// Tail of the update queue - each update starts once the previous one has saved
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load, change and save the store with no other update in between, like updateLedger
+ * A halt or manual reset can't be lost to an overlapping equity check
+ */
+function updateStore<T>(update: (store: CircuitBreakerStore) => T): Promise<T> {
+  const run = storeQueue.then(async () => {
+    const store = await loadStore();
+    const result = update(store);
+    await saveStore(store);
+    return result;
+  });
+  storeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Start of the trading session containing `now`
+ */
+export function getSessionStart(now: Date, resetHourUtc: number): Date {
+  const start = new Date(now);
+  start.setUTCHours(resetHourUtc, 0, 0, 0);
+  if (start.getTime() > now.getTime()) {
+    start.setUTCDate(start.getUTCDate() - 1);
+  }
+  return start;
+}
+
+function createState(mode: TradingMode, equity: number, sessionStart: Date, now: Date): CircuitBreakerState {
+  return {
+    mode,
+    status: 'ACTIVE',
+    sessionStart: sessionStart.toISOString(),
+    sessionStartEquity: equity,
+    peakEquity: equity,
+    equity,
+    dailyPnl: 0,
+    dailyLoss: 0,
+    drawdown: 0,
+    haltReason: null,
+    haltedAt: null,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Fold a new equity observation into the breaker state
+ * Rolls the session, tracks the peak and halts when a limit is breached
+ */
+export function updateCircuitBreaker(
+  previous: CircuitBreakerState | undefined,
+  mode: TradingMode,
+  equity: number,
+  config: CircuitBreakerConfig,
+  now: Date = new Date()
+): CircuitBreakerState {
+  const sessionStart = getSessionStart(now, config.sessionResetHourUtc);
+  if (!previous) return createState(mode, equity, sessionStart, now);
+
+  const state: CircuitBreakerState = { ...previous, equity, updatedAt: now.toISOString() };
+
+  // New session - rebase the daily loss and lift the halt
+  if (new Date(state.sessionStart).getTime() < sessionStart.getTime()) {
+    state.sessionStart = sessionStart.toISOString();
+    state.sessionStartEquity = equity;
+    state.status = 'ACTIVE';
+    state.haltReason = null;
+    state.haltedAt = null;
+  }
+
+  state.peakEquity = Math.max(state.peakEquity, equity);
+  state.dailyPnl = equity - state.sessionStartEquity;
+  state.dailyLoss = state.sessionStartEquity > 0
+    ? Math.max(0, -state.dailyPnl / state.sessionStartEquity)
+    : 0;
+  state.drawdown = state.peakEquity > 0
+    ? Math.max(0, (state.peakEquity - equity) / state.peakEquity)
+    : 0;
+
+  if (state.status === 'HALTED') return state;
+
+  if (state.dailyLoss >= config.maxDailyLoss) {
+    state.status = 'HALTED';
+    state.haltedAt = now.toISOString();
+    state.haltReason = {
+      trigger: 'dailyLoss',
+      message: `Daily loss of ${(state.dailyLoss * 100).toFixed(2)}% breached the ${(config.maxDailyLoss * 100).toFixed(2)}% limit`,
+      equity,
+      threshold: state.sessionStartEquity * (1 - config.maxDailyLoss),
+    };
+  } else if (state.drawdown >= config.maxDrawdown) {
+    state.status = 'HALTED';
+    state.haltedAt = now.toISOString();
+    state.haltReason = {
+      trigger: 'drawdown',
+      message: `Drawdown of ${(state.drawdown * 100).toFixed(2)}% from peak breached the ${(config.maxDrawdown * 100).toFixed(2)}% limit`,
+      equity,
+      threshold: state.peakEquity * (1 - config.maxDrawdown),
+    };
+  }
+
+  return state;
+}
+
+/**
+ * Record the latest equity for a mode and return the updated state
+ */
+export async function checkCircuitBreaker(mode: TradingMode, equity: number): Promise<CircuitBreakerState> {
+  return updateStore(store => {
+    const state = updateCircuitBreaker(store[mode], mode, equity, getCircuitBreakerConfig());
+    store[mode] = state;
+    return state;
+  });
+}
+
+/**
+ * Last recorded state without a new equity observation
+ */
+export async function getCircuitBreakerState(mode: TradingMode): Promise<CircuitBreakerState | null> {
+  const store = await loadStore();
+  return store[mode] ?? null;
+}
+
+/**
+ * Manual reset - lifts the halt and rebases the session open and peak to current equity
+ */
+export async function resetCircuitBreaker(mode: TradingMode, equity: number): Promise<CircuitBreakerState> {
+  return updateStore(store => {
+    const now = new Date();
+    const state = createState(mode, equity, getSessionStart(now, getCircuitBreakerConfig().sessionResetHourUtc), now);
+    store[mode] = state;
+    return state;
+  });
+}
+
+/**
+ * Current equity for the active mode - the Kraken flex account when live,
+ * otherwise the paper ledger marked to market
+ */
+export async function getCurrentEquity(
+  credentials: KrakenCredentials | null
+): Promise<{ mode: TradingMode; equity: number }> {
+  if (credentials) {
+    return { mode: 'live', equity: await getAccountEquity(credentials) };
+  }
+
+  // Marks a copy of the ledger and never saves it - writes go through updateLedger
+  const ledger = await loadLedger();
+  await accrueLedgerFunding(ledger);
+  markToMarket(ledger, await getTickers());
+  return { mode: 'paper', equity: summarizeLedger(ledger).equity };
+}
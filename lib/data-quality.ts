@@ -0,0 +1,180 @@
+/**
+ * Market data quality checks
+ *
+ * A signal is only as good as its inputs. Before a signal is acted on, the
+ * strategy checks:
+ * - Ticker: suspended market, stale ticker (lastTime too old), zero / missing price
+ * - Funding series: missing periods (gaps between timestamps), duplicate periods
+ * - Rates: outliers - beyond any venue's funding cap, or far outside the window
+ *   on a robust (median / MAD) scale
+ *
+ * Issues are 'error' (the signal is downgraded to NEUTRAL) or 'warning' (reported only).
+ * Rates are per hour, like everywhere else in the strategy.
+ */
+
+import { FundingRate } from './kraken';
+
+export type DataQualityIssueCode =
+  | 'suspended'
+  | 'staleTicker'
+  | 'zeroPrice'
+  | 'missingPeriods'
+  | 'duplicatePeriods'
+  | 'outlierRate';
+
+export interface DataQualityIssue {
+  code: DataQualityIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DataQuality {
+  ok: boolean;                    // No error-level issues
+  issues: DataQualityIssue[];
+  tickerAgeSeconds: number | null;    // null without a ticker timestamp
+  missingPeriods: number;
+  duplicatePeriods: number;
+  outlierPeriods: number;         // History rates flagged as outliers
+}
+
+export interface DataQualityOptions {
+  maxTickerAgeMinutes: number;    // Older lastTime = stale ticker
+  maxMissingFraction: number;     // Missing / expected periods above this is an error, below a warning
+  outlierZ: number;               // |rate - median| / (1.4826 * MAD) above this is an outlier
+  maxHourlyRate: number;          // |rate| above this is an outlier whatever the history says
+}
+
+export const DEFAULT_DATA_QUALITY_OPTIONS: DataQualityOptions = {
+  maxTickerAgeMinutes: 15,
+  maxMissingFraction: 0.1,
+  outlierZ: 20,
+  maxHourlyRate: 0.005,           // 0.5%/h - above every venue's funding cap
+};
+
+export interface DataQualityInput {
+  price: number;
+  history: FundingRate[];         // Realized funding history (any order)
+  hourlyRates: number[];          // The same history per hour, oldest first
+  currentRate: number;            // Per hour
+  historyIntervalHours: number;
+  ticker?: { lastTime?: string; suspended?: boolean };   // Omitted when there is no live ticker (backtests)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Predicate for outlier rates, from the window's median and MAD
+ * With a flat window (MAD 0) only the absolute cap applies
+ */
+export function outlierTest(rates: number[], options: DataQualityOptions): (rate: number) => boolean {
+  const center = rates.length > 0 ? median(rates) : 0;
+  const scale = rates.length > 0 ? 1.4826 * median(rates.map(r => Math.abs(r - center))) : 0;
+
+  return (rate: number) =>
+    !Number.isFinite(rate) ||
+    Math.abs(rate) > options.maxHourlyRate ||
+    (scale > 0 && Math.abs(rate - center) / scale > options.outlierZ);
+}
+
+/**
+ * Missing and duplicate periods in a funding series
+ */
+export function fundingSeriesGaps(
+  history: FundingRate[],
+  intervalHours: number
+): { missing: number; duplicates: number } {
+  const times = history
+    .map(r => new Date(r.timestamp).getTime())
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+  const intervalMs = intervalHours * 60 * 60 * 1000;
+
+  let missing = 0;
+  let duplicates = 0;
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap === 0) duplicates++;
+    // Settlement times drift by a few seconds - count whole periods only
+    else missing += Math.max(0, Math.round(gap / intervalMs) - 1);
+  }
+
+  return { missing, duplicates };
+}
+
+/**
+ * Run every check for one asset
+ */
+export function assessDataQuality(
+  input: DataQualityInput,
+  options: DataQualityOptions = DEFAULT_DATA_QUALITY_OPTIONS,
+  now: Date = new Date()
+): DataQuality {
+  const issues: DataQualityIssue[] = [];
+
+  if (input.ticker?.suspended) {
+    issues.push({ code: 'suspended', severity: 'error', message: 'Market is suspended' });
+  }
+
+  let tickerAgeSeconds: number | null = null;
+  const lastTime = input.ticker?.lastTime ? new Date(input.ticker.lastTime).getTime() : NaN;
+  if (Number.isFinite(lastTime)) {
+    tickerAgeSeconds = Math.max(0, Math.round((now.getTime() - lastTime) / 1000));
+    if (tickerAgeSeconds > options.maxTickerAgeMinutes * 60) {
+      issues.push({
+        code: 'staleTicker',
+        severity: 'error',
+        message: `Ticker is ${Math.round(tickerAgeSeconds / 60)} minutes old (max ${options.maxTickerAgeMinutes})`,
+      });
+    }
+  }
+
+  if (!(input.price > 0)) {
+    issues.push({ code: 'zeroPrice', severity: 'error', message: 'No price - the ticker is missing or reports 0' });
+  }
+
+  const { missing, duplicates } = fundingSeriesGaps(input.history, input.historyIntervalHours);
+  if (missing > 0) {
+    const fraction = missing / (input.history.length - duplicates + missing);
+    issues.push({
+      code: 'missingPeriods',
+      severity: fraction > options.maxMissingFraction ? 'error' : 'warning',
+      message: `${missing} funding period${missing === 1 ? '' : 's'} missing (${(fraction * 100).toFixed(1)}% of the window)`,
+    });
+  }
+  if (duplicates > 0) {
+    issues.push({
+      code: 'duplicatePeriods',
+      severity: 'warning',
+      message: `${duplicates} duplicate funding period${duplicates === 1 ? '' : 's'}`,
+    });
+  }
+
+  const isOutlier = outlierTest(input.hourlyRates, options);
+  const outlierPeriods = input.hourlyRates.filter(isOutlier).length;
+  if (isOutlier(input.currentRate)) {
+    issues.push({
+      code: 'outlierRate',
+      severity: 'error',
+      message: `Current funding ${(input.currentRate * 100).toFixed(5)}%/h looks like bad data`,
+    });
+  } else if (outlierPeriods > 0) {
+    issues.push({
+      code: 'outlierRate',
+      severity: 'warning',
+      message: `${outlierPeriods} outlier rate${outlierPeriods === 1 ? '' : 's'} in the funding history`,
+    });
+  }
+
+  return {
+    ok: !issues.some(i => i.severity === 'error'),
+    issues,
+    tickerAgeSeconds,
+    missingPeriods: missing,
+    duplicatePeriods: duplicates,
+    outlierPeriods,
+  };
+}
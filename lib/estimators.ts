@@ -0,0 +1,143 @@
+/**
+ * Z-score estimators for the funding window
+ *
+ * The plain mean / std lets one funding spike inflate the std and mute every
+ * signal that follows it while the spike is in the window. The alternatives:
+ * - ewma: exponentially weighted mean / variance - recent periods dominate, so the
+ *   window adapts to a new regime and old spikes fade out
+ * - mad: median and 1.4826 x median absolute deviation - a spike barely moves either
+ * - percentile: the rate's percentile rank in the window, mapped to the normal z
+ *   with the same tail probability. It only depends on ordering, so its z is capped at
+ *   Φ⁻¹((n + 0.5) / (n + 1)) - about 2.5 for a 90-period window
+ *
+ * Every estimator reports a center and scale (shown as mean / std) and a z-score function,
+ * so the confirmation thresholds work unchanged.
+ */
+
+export type ZScoreEstimator = 'standard' | 'ewma' | 'mad' | 'percentile';
+
+export const ZSCORE_ESTIMATORS: ZScoreEstimator[] = ['standard', 'ewma', 'mad', 'percentile'];
+
+export interface EstimatorOptions {
+  ewmaHalfLifePeriods: number;    // Weight halves every this many periods back
+}
+
+export interface WindowEstimate {
+  estimator: ZScoreEstimator;
+  center: number;                 // Mean, EWMA mean or median
+  scale: number;                  // Std, EWMA std or robust std - 0 for a flat window
+  zScore: (rate: number) => number;
+}
+
+// 1 / Φ⁻¹(0.75) - scales the MAD to the std of a normal distribution
+const MAD_TO_STD = 1.4826;
+// sqrt(π / 2) - scales the mean absolute deviation to the std of a normal distribution
+const MEAN_ABS_TO_STD = 1.2533;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Mid-rank percentile of a rate in the window, strictly between 0 and 1
+ */
+export function percentileRank(window: number[], rate: number): number {
+  let below = 0;
+  let equal = 0;
+  for (const value of window) {
+    if (value < rate) below++;
+    else if (value === rate) equal++;
+  }
+  return (below + 0.5 * equal + 0.5) / (window.length + 1);
+}
+
+// Median and a robust std - the MAD, or the mean absolute deviation when over half the window is identical
+function robustCenterScale(window: number[]): { center: number; scale: number } {
+  const center = median(window);
+  const deviations = window.map(r => Math.abs(r - center));
+  const mad = median(deviations);
+  const scale = mad > 0
+    ? MAD_TO_STD * mad
+    : MEAN_ABS_TO_STD * deviations.reduce((a, b) => a + b, 0) / window.length;
+  return { center, scale };
+}
+
+/**
+ * Center, scale and z-score function for a window of rates (oldest first)
+ */
+export function estimateWindow(
+  window: number[],
+  estimator: ZScoreEstimator,
+  options: EstimatorOptions
+): WindowEstimate {
+  const standardZ = (center: number, scale: number) => (rate: number) => scale > 0 ? (rate - center) / scale : 0;
+
+  switch (estimator) {
+    case 'ewma': {
+      const decay = Math.pow(0.5, 1 / options.ewmaHalfLifePeriods);
+      let weightSum = 0;
+      let weighted = 0;
+      for (let i = 0; i < window.length; i++) {
+        const weight = Math.pow(decay, window.length - 1 - i);
+        weightSum += weight;
+        weighted += weight * window[i];
+      }
+      const center = weighted / weightSum;
+      let variance = 0;
+      for (let i = 0; i < window.length; i++) {
+        variance += Math.pow(decay, window.length - 1 - i) * Math.pow(window[i] - center, 2);
+      }
+      const scale = Math.sqrt(variance / weightSum);
+      return { estimator, center, scale, zScore: standardZ(center, scale) };
+    }
+
+    case 'mad': {
+      const { center, scale } = robustCenterScale(window);
+      return { estimator, center, scale, zScore: standardZ(center, scale) };
+    }
+
+    case 'percentile': {
+      const { center, scale } = robustCenterScale(window);
+      return { estimator, center, scale, zScore: rate => normalQuantile(percentileRank(window, rate)) };
+    }
+
+    case 'standard':
+    default: {
+      const center = window.reduce((a, b) => a + b, 0) / window.length;
+      const variance = window.reduce((sum, val) => sum + Math.pow(val - center, 2), 0) / window.length;
+      const scale = Math.sqrt(variance);
+      return { estimator: 'standard', center, scale, zScore: standardZ(center, scale) };
+    }
+  }
+}
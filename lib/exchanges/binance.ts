@@ -0,0 +1,86 @@
+// Binance USD-M futures adapter
+// Most perpetuals fund every 8h; /fapi/v1/fundingInfo lists the ones that don't
+
+import { getFundingIntervalHours, toHourlyRate } from '../funding-interval';
+import { AdapterOptions, ExchangeAdapter, VenueFunding } from './types';
+import { getDefaultTransport } from './transport';
+
+const BINANCE_BASE = 'https://fapi.binance.com';
+
+// Binance symbols that are not <ASSET>USDT
+const BINANCE_SYMBOL_OVERRIDES: Record<string, string> = {};
+
+/**
+ * USD-M perpetual for an asset, e.g. BTC -> BTCUSDT
+ */
+export function toBinanceSymbol(symbol: string): string {
+  const asset = symbol.toUpperCase();
+  return BINANCE_SYMBOL_OVERRIDES[asset] ?? `${asset}USDT`;
+}
+
+interface BinancePremiumIndex {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  lastFundingRate: string;    // Rate that settles at nextFundingTime
+  nextFundingTime: number;
+  time: number;
+}
+
+interface BinanceFundingInfo {
+  symbol: string;
+  fundingIntervalHours: number;
+}
+
+export function createBinanceAdapter(options: AdapterOptions = {}): ExchangeAdapter {
+  const transport = options.transport ?? getDefaultTransport();
+
+  return {
+    id: 'binance',
+    name: 'Binance USD-M',
+    fees: { maker: 0.0002, taker: 0.0005, ...options.fees },
+
+    async getFunding(symbols) {
+      const [premium, info] = await Promise.all([
+        transport(`${BINANCE_BASE}/fapi/v1/premiumIndex`) as Promise<BinancePremiumIndex[]>,
+        transport(`${BINANCE_BASE}/fapi/v1/fundingInfo`) as Promise<BinanceFundingInfo[]>,
+      ]);
+      if (!Array.isArray(premium)) {
+        throw new Error('Binance API returned an unexpected response');
+      }
+
+      const intervals = new Map<string, number>();
+      for (const entry of Array.isArray(info) ? info : []) {
+        if (entry.fundingIntervalHours > 0) intervals.set(entry.symbol, entry.fundingIntervalHours);
+      }
+
+      const funding: VenueFunding[] = [];
+      for (const symbol of symbols) {
+        const venueSymbol = toBinanceSymbol(symbol);
+        const entry = premium.find(p => p.symbol === venueSymbol);
+        if (!entry) continue;
+
+        const fundingRate = parseFloat(entry.lastFundingRate);
+        const markPrice = parseFloat(entry.markPrice);
+        if (!Number.isFinite(fundingRate) || !(markPrice > 0)) continue;
+
+        const fundingIntervalHours = intervals.get(venueSymbol) ?? getFundingIntervalHours('binance', symbol);
+        funding.push({
+          venue: 'binance',
+          symbol: symbol.toUpperCase(),
+          venueSymbol,
+          fundingRate,
+          fundingIntervalHours,
+          hourlyRate: toHourlyRate(fundingRate, fundingIntervalHours),
+          predictedRate: null,
+          markPrice,
+          indexPrice: parseFloat(entry.indexPrice) || null,
+          nextFundingTime: entry.nextFundingTime ? new Date(entry.nextFundingTime).toISOString() : null,
+          timestamp: new Date(entry.time || Date.now()).toISOString(),
+        });
+      }
+
+      return funding;
+    },
+  };
+}
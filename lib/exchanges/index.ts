@@ -0,0 +1,56 @@
+// Exchange adapter registry
+// Add a venue by implementing ExchangeAdapter and listing its factory here
+
+import { AdapterOptions, ExchangeAdapter, VenueFunding, VenueId } from './types';
+import { createKrakenAdapter } from './kraken';
+import { createBinanceAdapter } from './binance';
+
+export * from './types';
+export { httpTransport, fixtureTransport, getDefaultTransport } from './transport';
+export { createKrakenAdapter } from './kraken';
+export { createBinanceAdapter, toBinanceSymbol } from './binance';
+
+const ADAPTER_FACTORIES: Partial<Record<VenueId, (options?: AdapterOptions) => ExchangeAdapter>> = {
+  kraken: createKrakenAdapter,
+  binance: createBinanceAdapter,
+};
+
+export const SUPPORTED_VENUES = Object.keys(ADAPTER_FACTORIES) as VenueId[];
+
+/**
+ * Adapters for the requested venues (all supported venues by default)
+ */
+export function getExchangeAdapters(
+  venues: VenueId[] = SUPPORTED_VENUES,
+  options: AdapterOptions = {}
+): ExchangeAdapter[] {
+  return venues.map(venue => {
+    const factory = ADAPTER_FACTORIES[venue];
+    if (!factory) throw new Error(`Unsupported venue: ${venue}`);
+    return factory(options);
+  });
+}
+
+/**
+ * Current funding from every adapter
+ * A failing venue is reported in errors rather than failing the others
+ */
+export async function getCrossVenueFunding(
+  adapters: ExchangeAdapter[],
+  symbols: string[]
+): Promise<{ funding: VenueFunding[]; errors: { venue: VenueId; error: string }[] }> {
+  const results = await Promise.allSettled(adapters.map(adapter => adapter.getFunding(symbols)));
+  const funding: VenueFunding[] = [];
+  const errors: { venue: VenueId; error: string }[] = [];
+
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      funding.push(...result.value);
+    } else {
+      const reason = result.reason;
+      errors.push({ venue: adapters[i].id, error: reason instanceof Error ? reason.message : 'Unknown error' });
+    }
+  });
+
+  return { funding, errors };
+}
@@ -0,0 +1,55 @@
+// Kraken Futures adapter - multi-collateral PF_ perpetuals fund hourly
+
+import { TickerData, getRelativeFundingRates, toKrakenSymbol } from '../kraken';
+import { getFundingIntervalHours, toHourlyRate } from '../funding-interval';
+import { AdapterOptions, ExchangeAdapter, VenueFunding } from './types';
+import { getDefaultTransport } from './transport';
+
+const KRAKEN_TICKERS_URL = 'https://futures.kraken.com/derivatives/api/v3/tickers';
+
+export function createKrakenAdapter(options: AdapterOptions = {}): ExchangeAdapter {
+  const transport = options.transport ?? getDefaultTransport();
+
+  return {
+    id: 'kraken',
+    name: 'Kraken Futures',
+    fees: { maker: 0.0002, taker: 0.0005, ...options.fees },
+
+    async getFunding(symbols) {
+      const data = await transport(KRAKEN_TICKERS_URL) as { result?: string; tickers?: TickerData[] };
+      if (data.result !== 'success' || !Array.isArray(data.tickers)) {
+        throw new Error(`Kraken API returned: ${data.result ?? 'unexpected response'}`);
+      }
+
+      const now = new Date();
+      const nextFunding = new Date(now);
+      nextFunding.setUTCMinutes(0, 0, 0);
+      nextFunding.setUTCHours(nextFunding.getUTCHours() + 1);
+
+      const funding: VenueFunding[] = [];
+      for (const symbol of symbols) {
+        const venueSymbol = toKrakenSymbol(symbol);
+        const ticker = data.tickers.find(t => t.symbol.toUpperCase() === venueSymbol);
+        if (!ticker || !(ticker.markPrice > 0)) continue;
+
+        const rates = getRelativeFundingRates(ticker);
+        const fundingIntervalHours = getFundingIntervalHours('kraken', symbol);
+        funding.push({
+          venue: 'kraken',
+          symbol: symbol.toUpperCase(),
+          venueSymbol,
+          fundingRate: rates.current,
+          fundingIntervalHours,
+          hourlyRate: toHourlyRate(rates.current, fundingIntervalHours),
+          predictedRate: rates.predicted ?? null,
+          markPrice: ticker.markPrice,
+          indexPrice: ticker.indexPrice || null,
+          nextFundingTime: nextFunding.toISOString(),
+          timestamp: ticker.lastTime || now.toISOString(),
+        });
+      }
+
+      return funding;
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// Transports for exchange adapters
+// EXCHANGE_FIXTURES_DIR switches every adapter to recorded responses, so
+// /api/arbitrage can run offline:
+//   <dir>/<host>/<path>.json, e.g. fixtures/exchanges/fapi.binance.com/fapi/v1/premiumIndex.json
+// Query strings are ignored - a fixture holds the full (all-symbols) response.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Transport } from './types';
+import { getHttpClient } from '../http-client';
+
+/**
+ * Live HTTP GET through the shared client - throws ExchangeError on failure
+ */
+export const httpTransport: Transport = (url) => getHttpClient().getJson(url, { cache: 'no-store' });
+
+/**
+ * Fixture file for a URL
+ */
+export function fixturePath(dir: string, url: string): string {
+  const { host, pathname } = new URL(url);
+  return path.join(dir, host, `${pathname.replace(/\/+$/, '')}.json`);
+}
+
+/**
+ * Serve recorded responses from a directory
+ */
+export function fixtureTransport(dir: string): Transport {
+  return async (url) => {
+    const file = fixturePath(dir, url);
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`No fixture for ${url} (${path.relative(process.cwd(), file)}): ${error instanceof Error ? error.message : error}`);
+    }
+  };
+}
+
+/**
+ * Fixtures when EXCHANGE_FIXTURES_DIR is set, live HTTP otherwise
+ */
+export function getDefaultTransport(): Transport {
+  const dir = process.env.EXCHANGE_FIXTURES_DIR;
+  return dir ? fixtureTransport(path.resolve(dir)) : httpTransport;
+}
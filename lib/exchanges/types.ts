@@ -0,0 +1,43 @@
+// Exchange adapter interface for cross-venue funding comparison
+// Each venue maps our asset symbols (BTC, ETH, ...) to its own perpetuals and
+// reports current funding as a relative rate with the interval it applies to.
+
+export type VenueId = 'kraken' | 'binance' | 'bybit' | 'okx';
+
+/**
+ * Fetches a URL and returns the parsed JSON body
+ * httpTransport in production, fixtureTransport for recorded responses
+ */
+export type Transport = (url: string) => Promise<unknown>;
+
+export interface VenueFees {
+  maker: number;              // Fraction of notional, 0.0002 = 0.02%
+  taker: number;
+}
+
+export interface VenueFunding {
+  venue: VenueId;
+  symbol: string;             // Our asset symbol, e.g. BTC
+  venueSymbol: string;        // e.g. PF_XBTUSD, BTCUSDT
+  fundingRate: number;        // Relative rate per funding interval
+  fundingIntervalHours: number;
+  hourlyRate: number;         // fundingRate / fundingIntervalHours
+  predictedRate: number | null;   // Next interval, relative - null if the venue has none
+  markPrice: number;
+  indexPrice: number | null;
+  nextFundingTime: string | null;
+  timestamp: string;
+}
+
+export interface ExchangeAdapter {
+  id: VenueId;
+  name: string;
+  fees: VenueFees;
+  /** Current funding for the given assets - unlisted assets are left out */
+  getFunding(symbols: string[]): Promise<VenueFunding[]>;
+}
+
+export interface AdapterOptions {
+  transport?: Transport;
+  fees?: Partial<VenueFees>;
+}
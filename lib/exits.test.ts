@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExitObservation, ExitState, attributeExits, createExitConfig, exitConfigError, planExit } from './exits';
+
+// Short that faded positive funding
+function short(overrides: Partial<ExitState> = {}): ExitState {
+  return {
+    side: 'short',
+    entryPrice: 100,
+    entryTime: '2024-01-01T00:00:00Z',
+    initialSize: 2,
+    size: 2,
+    bestPrice: 100,
+    scaledOut: false,
+    ...overrides,
+  };
+}
+
+function observe(overrides: Partial<ExitObservation> = {}): ExitObservation {
+  return { timestamp: '2024-01-01T08:00:00Z', price: 99, zScore: 2.5, ...overrides };
+}
+
+test('holds while funding is still extreme', () => {
+  const { decision, bestPrice } = planExit(short(), observe({ low: 98 }));
+  assert.equal(decision, null);
+  assert.equal(bestPrice, 98);
+});
+
+test('closes everything once funding is back inside fundingExitZ', () => {
+  const { decision } = planExit(short(), observe({ zScore: 0.4 }));
+  assert.deepEqual(decision, { reason: 'FUNDING_NORMALIZED', size: 2, price: 99 });
+
+  // Funding that flipped past zero is normalized too
+  assert.equal(planExit(short(), observe({ zScore: -1 })).decision?.reason, 'FUNDING_NORMALIZED');
+});
+
+test('reads the z-score from the side the trade faded', () => {
+  const long = short({ side: 'long' });
+  assert.equal(planExit(long, observe({ zScore: -2.5 })).decision, null);
+  assert.equal(planExit(long, observe({ zScore: -0.3 })).decision?.reason, 'FUNDING_NORMALIZED');
+  assert.equal(planExit(long, observe({ zScore: 2 })).decision?.reason, 'FUNDING_NORMALIZED');
+});
+
+test('the entry z sets the faded side and the level the funding rules start from', () => {
+  // A long opened on z +1 is measured from +1, not read as a fade of negative funding
+  const long = short({ side: 'long', entryZScore: 1 });
+  assert.equal(planExit(long, observe({ zScore: 1 })).decision, null);
+  assert.equal(planExit(long, observe({ zScore: 0.3 })).decision?.reason, 'FUNDING_NORMALIZED');
+
+  // Entered at 0.8 - already inside scaleOutZ, so only fundingExitZ applies
+  const shallow = short({ entryZScore: 0.8 });
+  assert.equal(planExit(shallow, observe({ zScore: 0.7 })).decision, null);
+  assert.equal(planExit(shallow, observe({ zScore: 0.4 })).decision?.reason, 'FUNDING_NORMALIZED');
+
+  assert.equal(planExit(short({ entryZScore: 2.5 }), observe({ zScore: 0.9 })).decision?.reason, 'SCALE_OUT');
+});
+
+test('scales out once, by a fraction of the initial size', () => {
+  const { decision } = planExit(short(), observe({ zScore: 0.9 }));
+  assert.deepEqual(decision, { reason: 'SCALE_OUT', size: 1, price: 99 });
+
+  assert.equal(planExit(short({ size: 1, scaledOut: true }), observe({ zScore: 0.9 })).decision, null);
+  assert.equal(planExit(short(), observe({ zScore: 0.9 }), createExitConfig({ scaleOutZ: null })).decision, null);
+});
+
+test('closes at the max hold', () => {
+  const late = observe({ timestamp: '2024-01-08T00:00:00Z' });
+  assert.deepEqual(planExit(short(), late).decision, { reason: 'MAX_HOLD', size: 2, price: 99 });
+  assert.equal(planExit(short(), late, createExitConfig({ maxHoldHours: null })).decision, null);
+});
+
+test('funding normalization wins over max hold and scale out', () => {
+  const late = observe({ timestamp: '2024-01-08T00:00:00Z', zScore: 0.2 });
+  assert.equal(planExit(short(), late).decision?.reason, 'FUNDING_NORMALIZED');
+});
+
+test('no z-score turns off the funding rules, not the max hold', () => {
+  assert.equal(planExit(short(), observe({ zScore: null })).decision, null);
+  const late = observe({ timestamp: '2024-01-08T00:00:00Z', zScore: null });
+  assert.equal(planExit(short(), late).decision?.reason, 'MAX_HOLD');
+});
+
+test('trailing stop arms from the prior best price and fills at the level', () => {
+  const config = createExitConfig({ trailingStopPercent: 0.02, trailingActivationPercent: 0.01 });
+
+  // 1% in profit before this observation - level is 95 * 1.02 = 96.9
+  const armed = short({ bestPrice: 95 });
+  const hit = planExit(armed, observe({ price: 96.5, high: 97.2, low: 96 }), config);
+  assert.equal(hit.decision?.reason, 'TRAILING_STOP');
+  assert.equal(hit.decision?.size, 2);
+  assert.ok(Math.abs(hit.decision!.price - 96.9) < 1e-9);
+
+  // Gapped through the level - fills at the observed price
+  const gapped = planExit(armed, observe({ price: 98, high: 98, low: 97.5 }), config);
+  assert.equal(gapped.decision?.price, 97.5);
+
+  // Not yet in profit enough to arm
+  assert.equal(planExit(short({ bestPrice: 99.5 }), observe({ price: 102, zScore: 2.5 }), config).decision, null);
+});
+
+test('a new best price in this observation does not trigger the stop', () => {
+  const config = createExitConfig({ trailingStopPercent: 0.02, trailingActivationPercent: 0 });
+  const { decision, bestPrice } = planExit(short(), observe({ price: 96, high: 101, low: 90 }), config);
+  assert.equal(decision, null);
+  assert.equal(bestPrice, 90);
+});
+
+test('a closed trade never exits', () => {
+  assert.equal(planExit(short({ size: 0 }), observe({ zScore: 0 })).decision, null);
+});
+
+test('attributes exits by reason', () => {
+  const byReason = attributeExits([
+    { reason: 'SCALE_OUT', size: 1, pnl: 10 },
+    { reason: 'FUNDING_NORMALIZED', size: 1, pnl: 5 },
+    { reason: 'SCALE_OUT', size: 0.5, pnl: -2 },
+  ]);
+  assert.deepEqual(byReason, {
+    SCALE_OUT: { exits: 2, size: 1.5, pnl: 8 },
+    FUNDING_NORMALIZED: { exits: 1, size: 1, pnl: 5 },
+  });
+});
+
+test('rejects invalid exit overrides', () => {
+  assert.equal(exitConfigError({ maxHoldHours: null, scaleOutZ: null }), null);
+  assert.match(exitConfigError({ scaleOutFraction: 1 }) ?? '', /scaleOutFraction/);
+  assert.match(exitConfigError({ trailingStopPercent: 0 }) ?? '', /trailingStopPercent/);
+  assert.match(exitConfigError({ maxHoldHours: -1 }) ?? '', /maxHoldHours/);
+});
@@ -0,0 +1,178 @@
+// Exit rules for open trades - when to close besides the price stop / target
+// Pure decision logic shared by the backtester (backtest.ts) and the paper broker (paper-broker.ts)
+//
+// The thesis is that extreme funding mean-reverts, so a trade has done its job once funding
+// is back to normal, whatever the price did:
+// - Funding normalized: the funding z-score is back inside fundingExitZ - close everything
+// - Scale out: the z-score is back inside scaleOutZ - close scaleOutFraction, once
+// - Max hold: the trade is older than maxHoldHours
+// - Trailing stop: price gives back trailingStopPercent from its best level, once the trade
+//   has been trailingActivationPercent in profit
+//
+// Every exit is tagged with an ExitReason so results can be attributed by exit type.
+
+export type ExitReason =
+  | 'STOP_LOSS'
+  | 'TAKE_PROFIT'
+  | 'FUNDING_NORMALIZED'
+  | 'SCALE_OUT'
+  | 'MAX_HOLD'
+  | 'TRAILING_STOP'
+  | 'MANUAL'
+  | 'END_OF_DATA';
+
+export interface ExitConfig {
+  fundingExit: boolean;           // Close when funding normalizes
+  fundingExitZ: number;           // z on the entry side at or below this = normalized
+  scaleOutZ: number | null;       // z on the entry side at or below this = scale out - null = off
+  scaleOutFraction: number;       // Of the initial size
+  maxHoldHours: number | null;    // null = no limit
+  trailingStopPercent: number | null;   // Distance from the best price - null = off
+  trailingActivationPercent: number;    // Profit from entry before the trailing stop arms
+}
+
+export const DEFAULT_EXIT_CONFIG: ExitConfig = {
+  fundingExit: true,
+  fundingExitZ: 0.5,
+  scaleOutZ: 1.0,
+  scaleOutFraction: 0.5,
+  maxHoldHours: 7 * 24,
+  trailingStopPercent: null,
+  trailingActivationPercent: 0.01,
+};
+
+// Open trade as the exit rules see it
+export interface ExitState {
+  side: 'long' | 'short';
+  entryPrice: number;
+  entryTime: string;
+  initialSize: number;
+  size: number;                   // Still open
+  bestPrice: number;              // Highest price since entry for longs, lowest for shorts
+  scaledOut: boolean;
+  entryZScore?: number;           // Funding z the trade was opened on - omitted = the side opposite the trade
+}
+
+export interface ExitObservation {
+  timestamp: string;
+  price: number;                  // Close or mark price
+  high?: number;                  // Range since the last observation, when known
+  low?: number;
+  zScore: number | null;          // Current funding z-score - null without one (threshold signals)
+}
+
+export interface ExitDecision {
+  reason: ExitReason;
+  size: number;
+  price: number;
+}
+
+export interface ExitAttribution {
+  exits: number;
+  size: number;
+  pnl: number;
+}
+
+/**
+ * Merge overrides into the default exit config
+ */
+export function createExitConfig(overrides: Partial<ExitConfig> = {}): ExitConfig {
+  return { ...DEFAULT_EXIT_CONFIG, ...overrides };
+}
+
+/**
+ * Decide whether to close some or all of a trade at this observation
+ * Returns the decision (null to hold) and the best price to carry forward
+ */
+export function planExit(
+  state: ExitState,
+  observation: ExitObservation,
+  config: ExitConfig = DEFAULT_EXIT_CONFIG
+): { decision: ExitDecision | null; bestPrice: number } {
+  const direction = state.side === 'long' ? 1 : -1;
+  const high = observation.high ?? observation.price;
+  const low = observation.low ?? observation.price;
+  const bestPrice = direction > 0 ? Math.max(state.bestPrice, high) : Math.min(state.bestPrice, low);
+  const exit = (reason: ExitReason, size: number, price: number = observation.price) =>
+    ({ decision: { reason, size, price }, bestPrice });
+
+  if (state.size <= 0) return { decision: null, bestPrice };
+
+  // Armed from the best price before this observation - its own high may come after its low
+  if (config.trailingStopPercent !== null) {
+    const gain = direction * (state.bestPrice - state.entryPrice) / state.entryPrice;
+    if (gain >= config.trailingActivationPercent) {
+      const level = state.bestPrice * (1 - direction * config.trailingStopPercent);
+      if (direction > 0 ? low <= level : high >= level) {
+        // Gapped through the level - fill at the observed price instead
+        return exit('TRAILING_STOP', state.size, direction > 0 ? Math.min(level, high) : Math.max(level, low));
+      }
+    }
+  }
+
+  // Funding z on the side the trade faded - the entry z's side when known,
+  // otherwise shorts fade positive funding and longs negative
+  const fadedSide = state.entryZScore ? Math.sign(state.entryZScore) : -direction;
+  const entrySideZ = observation.zScore !== null ? fadedSide * observation.zScore : null;
+  // A funding rule only fires once z is back inside a threshold the entry started beyond
+  const entryLevel = state.entryZScore ? Math.abs(state.entryZScore) : Infinity;
+  const backInside = (threshold: number) => entrySideZ !== null && entrySideZ <= threshold && threshold < entryLevel;
+
+  if (config.fundingExit && backInside(config.fundingExitZ)) {
+    return exit('FUNDING_NORMALIZED', state.size);
+  }
+
+  if (config.maxHoldHours !== null) {
+    const heldHours = (new Date(observation.timestamp).getTime() - new Date(state.entryTime).getTime()) / (60 * 60 * 1000);
+    if (heldHours >= config.maxHoldHours) return exit('MAX_HOLD', state.size);
+  }
+
+  if (config.scaleOutZ !== null && !state.scaledOut && backInside(config.scaleOutZ)) {
+    const size = Math.min(state.size, state.initialSize * config.scaleOutFraction);
+    if (size > 0) return exit('SCALE_OUT', size);
+  }
+
+  return { decision: null, bestPrice };
+}
+
+/**
+ * Exit count, size and PnL per exit reason
+ */
+export function attributeExits(
+  exits: { reason: ExitReason; size: number; pnl: number }[]
+): Partial<Record<ExitReason, ExitAttribution>> {
+  const byReason: Partial<Record<ExitReason, ExitAttribution>> = {};
+  for (const exit of exits) {
+    const entry = byReason[exit.reason] ?? { exits: 0, size: 0, pnl: 0 };
+    entry.exits++;
+    entry.size += exit.size;
+    entry.pnl += exit.pnl;
+    byReason[exit.reason] = entry;
+  }
+  return byReason;
+}
+
+/**
+ * Why an exit config override is invalid - null when it is fine
+ */
+export function exitConfigError(overrides: Partial<ExitConfig>): string | null {
+  const { fundingExitZ, scaleOutZ, scaleOutFraction, maxHoldHours, trailingStopPercent, trailingActivationPercent } = overrides;
+  const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+  if (overrides.fundingExit !== undefined && typeof overrides.fundingExit !== 'boolean') return 'fundingExit must be a boolean';
+  if (fundingExitZ !== undefined && !isNumber(fundingExitZ)) return 'fundingExitZ must be a number';
+  if (scaleOutZ !== undefined && scaleOutZ !== null && !isNumber(scaleOutZ)) return 'scaleOutZ must be a number or null';
+  if (scaleOutFraction !== undefined && !(isNumber(scaleOutFraction) && scaleOutFraction > 0 && scaleOutFraction < 1)) {
+    return 'scaleOutFraction must be between 0 and 1';
+  }
+  if (maxHoldHours !== undefined && maxHoldHours !== null && !(isNumber(maxHoldHours) && maxHoldHours > 0)) {
+    return 'maxHoldHours must be a positive number or null';
+  }
+  if (trailingStopPercent !== undefined && trailingStopPercent !== null && !(isNumber(trailingStopPercent) && trailingStopPercent > 0 && trailingStopPercent < 1)) {
+    return 'trailingStopPercent must be between 0 and 1, or null';
+  }
+  if (trailingActivationPercent !== undefined && !(isNumber(trailingActivationPercent) && trailingActivationPercent >= 0)) {
+    return 'trailingActivationPercent must be a non-negative number';
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Funding interval metadata and per-hour normalization
+ *
+ * Venues settle funding on different schedules - Kraken PF_ perpetuals every hour,
+ * Binance every 8h on most symbols (4h or 1h on some). A rate only means something
+ * next to its interval, so the strategy divides every rate by its interval and
+ * works per hour: z-scores, absolute thresholds and annualization (24 * 365).
+ */
+
+import { FundingRate } from './kraken';
+import { VenueId } from './exchanges/types';
+
+export const HOURS_PER_YEAR = 24 * 365;
+
+// Venue default, in hours
+export const DEFAULT_FUNDING_INTERVAL_HOURS: Record<VenueId, number> = {
+  kraken: 1,
+  binance: 8,
+  bybit: 8,
+  okx: 8,
+};
+
+// Symbols that differ from their venue default
+// Binance publishes the current list at /fapi/v1/fundingInfo - the adapter reads it live
+export const FUNDING_INTERVAL_OVERRIDES: Partial<Record<VenueId, Record<string, number>>> = {};
+
+/**
+ * Funding interval for a symbol on a venue, in hours
+ */
+export function getFundingIntervalHours(venue: VenueId, symbol: string): number {
+  return FUNDING_INTERVAL_OVERRIDES[venue]?.[symbol.toUpperCase()] ?? DEFAULT_FUNDING_INTERVAL_HOURS[venue];
+}
+
+/**
+ * Rate per funding interval to rate per hour
+ */
+export function toHourlyRate(rate: number, intervalHours: number): number {
+  return intervalHours > 0 ? rate / intervalHours : rate;
+}
+
+/**
+ * Percent per year from a per-hour rate
+ */
+export function annualizeHourlyRate(hourlyRate: number): number {
+  return hourlyRate * HOURS_PER_YEAR * 100;
+}
+
+/**
+ * Interval of a history series from the median gap between its timestamps
+ * Returns null with fewer than two records
+ */
+export function inferFundingIntervalHours(history: FundingRate[]): number | null {
+  const times = history
+    .map(r => new Date(r.timestamp).getTime())
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] > times[i - 1]) gaps.push(times[i] - times[i - 1]);
+  }
+  if (gaps.length === 0) return null;
+
+  gaps.sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+  // Whole hours - settlement times drift by a few seconds
+  return Math.max(1, Math.round(median / (60 * 60 * 1000)));
+}
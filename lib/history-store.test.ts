@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendHistory, getHistoryDir, getLastTimestamp, readHistory } from './history-store';
+
+async function useTempHistoryDir(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'history-store-'));
+  const previous = process.env.HISTORY_DIR;
+  process.env.HISTORY_DIR = dir;
+  t.after(async () => {
+    if (previous === undefined) delete process.env.HISTORY_DIR;
+    else process.env.HISTORY_DIR = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  return dir;
+}
+
+function rate(hour: number) {
+  const timestamp = new Date(Date.UTC(2024, 0, 1) + hour * 60 * 60 * 1000).toISOString();
+  return { timestamp, fundingRate: 0.0001, relativeFundingRate: 0.0001 };
+}
+
+test('last timestamp is found past a torn final line and across chunks', async t => {
+  await useTempHistoryDir(t);
+  assert.equal(await getLastTimestamp('kraken-funding', 'BTC'), null);
+
+  await appendHistory('kraken-funding', 'BTC', Array.from({ length: 500 }, (_, i) => rate(i)));
+  const file = path.join(getHistoryDir(), 'kraken-funding', 'BTC.jsonl');
+
+  // A torn line longer than one read chunk
+  await fs.appendFile(file, `{"timestamp":"2030-01-01T00:00:00.000Z","note":"${'x'.repeat(40000)}`, 'utf8');
+
+  assert.equal(await getLastTimestamp('kraken-funding', 'BTC'), rate(499).timestamp);
+});
+
+test('append skips stored periods and terminates a torn final line', async t => {
+  await useTempHistoryDir(t);
+  await appendHistory('kraken-funding', 'ETH', [rate(0), rate(1)]);
+  const file = path.join(getHistoryDir(), 'kraken-funding', 'ETH.jsonl');
+  await fs.appendFile(file, '{"timestamp":', 'utf8');
+
+  const added = await appendHistory('kraken-funding', 'ETH', [rate(1), rate(3), rate(2)]);
+  assert.deepEqual(added.map(r => r.timestamp), [rate(2).timestamp, rate(3).timestamp]);
+
+  const stored = await readHistory('kraken-funding', 'ETH');
+  assert.deepEqual(stored.map(r => r.timestamp), [0, 1, 2, 3].map(h => rate(h).timestamp));
+});
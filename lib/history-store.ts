@@ -0,0 +1,222 @@
+// Local time-series store for funding rates, market snapshots and price candles
+// One append-only JSON Lines file per series and symbol:
+//   <HISTORY_DIR>/<series>/<SYMBOL>.jsonl
+//
+// Records are only ever appended with a timestamp newer than the last stored one,
+// so the sync jobs in history-sync.ts only need to fetch what is missing.
+// Reads sort and de-duplicate by timestamp, so a record appended twice by
+// concurrent syncs (or a torn final line) does no harm.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Candle, FundingRate } from './kraken';
+import { DEFAULT_STRATEGY_CONFIG, StrategyConfig } from './strategy';
+import { PriceActionOptions, candleWindow } from './price-action';
+
+// kraken-funding: Kraken historicalfundingrates
+// binance-funding: Binance fundingRate (relativeFundingRate = fundingRate)
+// market: Kraken ticker snapshots - mark price, open interest, volume
+// candles: Kraken 1h trade candles, closed candles only
+export type HistorySeries = 'kraken-funding' | 'binance-funding' | 'market' | 'candles';
+
+export interface MarketSnapshot {
+  timestamp: string;
+  markPrice: number;
+  indexPrice: number;
+  openInterest: number;
+  vol24h: number;
+  fundingRate: number;
+  fundingRatePrediction: number;
+}
+
+export interface HistoryRecordMap {
+  'kraken-funding': FundingRate;
+  'binance-funding': FundingRate;
+  'market': MarketSnapshot;
+  'candles': Candle;
+}
+
+export interface ReadHistoryOptions {
+  since?: string;       // Only records strictly after this timestamp
+  limit?: number;       // Most recent N records
+}
+
+/**
+ * Store location - override with HISTORY_DIR
+ */
+export function getHistoryDir(): string {
+  return process.env.HISTORY_DIR || path.join(process.cwd(), '.data', 'history');
+}
+
+function seriesFile(series: HistorySeries, symbol: string): string {
+  return path.join(getHistoryDir(), series, `${symbol.toUpperCase()}.jsonl`);
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * Read a series, oldest first
+ */
+export async function readHistory<S extends HistorySeries>(
+  series: S,
+  symbol: string,
+  options: ReadHistoryOptions = {}
+): Promise<HistoryRecordMap[S][]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(seriesFile(series, symbol), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const byTime = new Map<number, HistoryRecordMap[S]>();
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as HistoryRecordMap[S];
+      const time = toTime(record.timestamp);
+      if (!Number.isNaN(time) && !byTime.has(time)) byTime.set(time, record);
+    } catch {
+      // Partially written line from an interrupted append - skip it
+    }
+  }
+
+  const since = options.since ? toTime(options.since) : -Infinity;
+  const records = Array.from(byTime.entries())
+    .filter(([time]) => time > since)
+    .sort((a, b) => a[0] - b[0])
+    .map(([, record]) => record);
+
+  return options.limit !== undefined ? records.slice(-options.limit) : records;
+}
+
+// Bytes read per step when scanning back from the end of a series file
+const TAIL_CHUNK_BYTES = 16 * 1024;
+
+interface SeriesTail {
+  lastTimestamp: string | null;
+  tornEnd: boolean;       // Non-empty file whose last line has no newline
+}
+
+/**
+ * Newest timestamp in the last complete lines of a series file
+ * Reads back from the end a chunk at a time until a valid record turns up,
+ * so syncs don't parse the whole series
+ */
+async function readTail(file: string): Promise<SeriesTail> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(file, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { lastTimestamp: null, tornEnd: false };
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    let position = size;
+    let tail = Buffer.alloc(0);
+    let tornEnd = false;
+
+    while (position > 0) {
+      const length = Math.min(TAIL_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+      tail = Buffer.concat([chunk, tail]);
+      if (position + length === size) tornEnd = chunk[length - 1] !== 0x0a;
+
+      // The first line is cut off unless the start of the file has been reached
+      const lines = tail.toString('utf8').split('\n');
+      if (position > 0) lines.shift();
+
+      let newest: number | null = null;
+      let lastTimestamp: string | null = null;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const { timestamp } = JSON.parse(line) as { timestamp: string };
+          const time = toTime(timestamp);
+          if (!Number.isNaN(time) && (newest === null || time > newest)) {
+            newest = time;
+            lastTimestamp = timestamp;
+          }
+        } catch {
+          // Torn line - keep looking
+        }
+      }
+      if (lastTimestamp) return { lastTimestamp, tornEnd };
+    }
+
+    return { lastTimestamp: null, tornEnd };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Timestamp of the newest stored record, or null for an empty series
+ */
+export async function getLastTimestamp(series: HistorySeries, symbol: string): Promise<string | null> {
+  return (await readTail(seriesFile(series, symbol))).lastTimestamp;
+}
+
+/**
+ * Append records newer than the last stored one
+ * Returns the records actually written
+ */
+export async function appendHistory<S extends HistorySeries>(
+  series: S,
+  symbol: string,
+  records: HistoryRecordMap[S][]
+): Promise<HistoryRecordMap[S][]> {
+  const file = seriesFile(series, symbol);
+  const { lastTimestamp, tornEnd } = await readTail(file);
+  const after = lastTimestamp ? toTime(lastTimestamp) : -Infinity;
+
+  const seen = new Set<number>();
+  const fresh = records
+    .filter(r => {
+      const time = toTime(r.timestamp);
+      if (Number.isNaN(time) || time <= after || seen.has(time)) return false;
+      seen.add(time);
+      return true;
+    })
+    .sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  if (fresh.length === 0) return [];
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  // Terminate a torn final line so it does not swallow the first new record
+  const prefix = tornEnd ? '\n' : '';
+
+  await fs.appendFile(file, prefix + fresh.map(r => JSON.stringify(r)).join('\n') + '\n', 'utf8');
+  return fresh;
+}
+
+/**
+ * Market snapshots covering the strategy's open interest, volume and premium windows
+ */
+export async function readMarketWindow(
+  symbol: string,
+  config: Pick<StrategyConfig, 'oiWindowHours' | 'volumeWindowHours' | 'premiumWindowHours'> = DEFAULT_STRATEGY_CONFIG,
+  now: Date = new Date()
+): Promise<MarketSnapshot[]> {
+  const hours = Math.max(config.oiWindowHours, config.volumeWindowHours, config.premiumWindowHours);
+  const since = new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+  return readHistory('market', symbol, { since });
+}
+
+/**
+ * Stored candles for the trend filter, ATR and realized volatility
+ */
+export async function readCandleWindow(
+  symbol: string,
+  config: PriceActionOptions = DEFAULT_STRATEGY_CONFIG
+): Promise<Candle[]> {
+  return readHistory('candles', symbol, { limit: candleWindow(config) });
+}
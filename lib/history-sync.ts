@@ -0,0 +1,267 @@
+// Incremental sync jobs for the local history store
+// Each job looks at the newest stored timestamp and only fetches what is missing:
+// - Kraken funding: the endpoint has no start parameter, so the fetch is skipped
+//   entirely until a new funding period can exist
+// - Binance funding: paged forward from the last stored fundingTime with startTime
+// - Market snapshots: one Kraken ticker snapshot per symbol per interval
+// - Candles: Kraken 1h trade candles, paged forward from the last stored candle
+
+import { Candle, FundingRate, TickerData, getCandles, getHistoricalFundingRates, getTickers, getTickerForSymbol } from './kraken';
+import { HistorySeries, MarketSnapshot, appendHistory, getLastTimestamp } from './history-store';
+import { toBinanceSymbol } from './exchanges/binance';
+import { getWatchlist } from './instrument-store';
+import { ExchangeApiError, HttpClient, getHttpClient, mapConcurrent } from './http-client';
+
+const BINANCE_HOST = 'fapi.binance.com';
+const BINANCE_BASE = `https://${BINANCE_HOST}`;
+const BINANCE_PAGE_LIMIT = 1000;
+const BINANCE_MAX_PAGES = 20;
+const CANDLE_MAX_PAGES = 10;
+const CANDLE_BACKFILL_HOURS = 30 * 24;
+
+// Symbols synced in parallel - the HTTP client's rate limits still apply
+const SYNC_CONCURRENCY = 4;
+
+// Minimum age of the newest stored period before asking for more
+const KRAKEN_FUNDING_INTERVAL_MS = 60 * 60 * 1000;   // Kraken perpetuals fund hourly
+const BINANCE_FUNDING_INTERVAL_MS = 60 * 60 * 1000;  // 8h on most symbols, 1h-4h on some
+const MARKET_SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+const CANDLE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface SyncResult {
+  series: HistorySeries;
+  symbol: string;
+  added: number;
+  skipped: boolean;       // Nothing could be new yet - no request was made
+  lastTimestamp: string | null;
+  error?: string;
+}
+
+interface BinanceFundingRate {
+  symbol: string;
+  fundingRate: string;
+  fundingTime: number;
+  markPrice: string;
+}
+
+/**
+ * Days of Binance history fetched on the first sync - override with HISTORY_BACKFILL_DAYS
+ */
+function getBackfillDays(): number {
+  const days = Number(process.env.HISTORY_BACKFILL_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 90;
+}
+
+function isFresh(lastTimestamp: string | null, intervalMs: number, now: Date): boolean {
+  return lastTimestamp !== null && now.getTime() - new Date(lastTimestamp).getTime() < intervalMs;
+}
+
+/**
+ * Append new Kraken funding periods for a symbol
+ */
+export async function syncKrakenFunding(symbol: string, now: Date = new Date()): Promise<SyncResult> {
+  const series: HistorySeries = 'kraken-funding';
+  const last = await getLastTimestamp(series, symbol);
+  if (isFresh(last, KRAKEN_FUNDING_INTERVAL_MS, now)) {
+    return { series, symbol, added: 0, skipped: true, lastTimestamp: last };
+  }
+
+  const rates = await getHistoricalFundingRates(symbol);
+  const added = await appendHistory(series, symbol, rates);
+  return {
+    series,
+    symbol,
+    added: added.length,
+    skipped: false,
+    lastTimestamp: added.length > 0 ? added[added.length - 1].timestamp : last,
+  };
+}
+
+/**
+ * Page Binance funding history forward from startTime
+ */
+async function fetchBinanceFunding(
+  binanceSymbol: string,
+  startTime: number,
+  client: HttpClient = getHttpClient()
+): Promise<FundingRate[]> {
+  const rates: FundingRate[] = [];
+  let from = startTime;
+
+  for (let page = 0; page < BINANCE_MAX_PAGES; page++) {
+    const url = `${BINANCE_BASE}/fapi/v1/fundingRate?symbol=${binanceSymbol}&startTime=${from}&limit=${BINANCE_PAGE_LIMIT}`;
+    const data = await client.getJson<BinanceFundingRate[]>(url, { cache: 'no-store' });
+    if (!Array.isArray(data)) {
+      throw new ExchangeApiError(BINANCE_HOST, 'Binance API returned an unexpected response');
+    }
+
+    rates.push(...data.map(d => ({
+      timestamp: new Date(d.fundingTime).toISOString(),
+      fundingRate: parseFloat(d.fundingRate),
+      relativeFundingRate: parseFloat(d.fundingRate),
+    })));
+
+    if (data.length < BINANCE_PAGE_LIMIT) break;
+    from = data[data.length - 1].fundingTime + 1;
+  }
+
+  return rates;
+}
+
+/**
+ * Append new Binance funding periods for a symbol
+ * The first sync backfills HISTORY_BACKFILL_DAYS
+ */
+export async function syncBinanceFunding(symbol: string, now: Date = new Date()): Promise<SyncResult> {
+  const series: HistorySeries = 'binance-funding';
+  const binanceSymbol = toBinanceSymbol(symbol);
+
+  const last = await getLastTimestamp(series, symbol);
+  if (isFresh(last, BINANCE_FUNDING_INTERVAL_MS, now)) {
+    return { series, symbol, added: 0, skipped: true, lastTimestamp: last };
+  }
+
+  const startTime = last
+    ? new Date(last).getTime() + 1
+    : now.getTime() - getBackfillDays() * 24 * 60 * 60 * 1000;
+
+  const rates = await fetchBinanceFunding(binanceSymbol, startTime);
+  const added = await appendHistory(series, symbol, rates);
+  return {
+    series,
+    symbol,
+    added: added.length,
+    skipped: false,
+    lastTimestamp: added.length > 0 ? added[added.length - 1].timestamp : last,
+  };
+}
+
+/**
+ * Append new closed 1h candles for a symbol
+ * The first sync backfills CANDLE_BACKFILL_HOURS
+ */
+export async function syncCandles(symbol: string, now: Date = new Date()): Promise<SyncResult> {
+  const series: HistorySeries = 'candles';
+  const last = await getLastTimestamp(series, symbol);
+
+  // The candle after the last stored one closes two intervals after its open
+  if (isFresh(last, 2 * CANDLE_INTERVAL_MS, now)) {
+    return { series, symbol, added: 0, skipped: true, lastTimestamp: last };
+  }
+
+  let from = last
+    ? new Date(new Date(last).getTime() + CANDLE_INTERVAL_MS)
+    : new Date(now.getTime() - CANDLE_BACKFILL_HOURS * 60 * 60 * 1000);
+  const candles: Candle[] = [];
+
+  for (let page = 0; page < CANDLE_MAX_PAGES; page++) {
+    const result = await getCandles(symbol, '1h', from);
+    candles.push(...result.candles);
+    if (!result.moreCandles || result.candles.length === 0) break;
+    from = new Date(new Date(result.candles[result.candles.length - 1].timestamp).getTime() + CANDLE_INTERVAL_MS);
+  }
+
+  // The current candle is still moving - only store it once it has closed
+  const closed = candles.filter(c => new Date(c.timestamp).getTime() + CANDLE_INTERVAL_MS <= now.getTime());
+  const added = await appendHistory(series, symbol, closed);
+  return {
+    series,
+    symbol,
+    added: added.length,
+    skipped: false,
+    lastTimestamp: added.length > 0 ? added[added.length - 1].timestamp : last,
+  };
+}
+
+/**
+ * Record a mark price / open interest snapshot per symbol from the tickers
+ */
+export async function syncMarketSnapshots(
+  tickers: TickerData[],
+  symbols: string[] = getWatchlist(),
+  now: Date = new Date()
+): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+
+  for (const symbol of symbols) {
+    const series: HistorySeries = 'market';
+    const ticker = getTickerForSymbol(tickers, symbol);
+    const last = await getLastTimestamp(series, symbol);
+
+    if (!ticker || isFresh(last, MARKET_SNAPSHOT_INTERVAL_MS, now)) {
+      results.push({ series, symbol, added: 0, skipped: true, lastTimestamp: last });
+      continue;
+    }
+
+    const snapshot: MarketSnapshot = {
+      timestamp: now.toISOString(),
+      markPrice: ticker.markPrice,
+      indexPrice: ticker.indexPrice,
+      openInterest: ticker.openInterest,
+      vol24h: ticker.vol24h,
+      fundingRate: ticker.fundingRate,
+      fundingRatePrediction: ticker.fundingRatePrediction,
+    };
+    const added = await appendHistory(series, symbol, [snapshot]);
+    results.push({
+      series,
+      symbol,
+      added: added.length,
+      skipped: false,
+      lastTimestamp: added.length > 0 ? snapshot.timestamp : last,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Run every sync job for the given symbols
+ * A failing job is reported in its result rather than aborting the others
+ */
+export async function syncHistory(
+  symbols: string[] = getWatchlist(),
+  options: { binance?: boolean } = {}
+): Promise<SyncResult[]> {
+  const failed = (series: HistorySeries, symbol: string, error: unknown): SyncResult => ({
+    series,
+    symbol,
+    added: 0,
+    skipped: false,
+    lastTimestamp: null,
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+
+  const perSymbol = await mapConcurrent(symbols, SYNC_CONCURRENCY, async symbol => {
+    const symbolResults: SyncResult[] = [];
+    try {
+      symbolResults.push(await syncKrakenFunding(symbol));
+    } catch (error) {
+      symbolResults.push(failed('kraken-funding', symbol, error));
+    }
+
+    try {
+      symbolResults.push(await syncCandles(symbol));
+    } catch (error) {
+      symbolResults.push(failed('candles', symbol, error));
+    }
+
+    if (options.binance !== false) {
+      try {
+        symbolResults.push(await syncBinanceFunding(symbol));
+      } catch (error) {
+        symbolResults.push(failed('binance-funding', symbol, error));
+      }
+    }
+    return symbolResults;
+  });
+  const results = perSymbol.reduce<SyncResult[]>((all, r) => all.concat(r), []);
+
+  try {
+    results.push(...await syncMarketSnapshots(await getTickers(), symbols));
+  } catch (error) {
+    results.push(failed('market', symbols.join(','), error));
+  }
+
+  return results;
+}
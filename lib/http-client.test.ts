@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CircuitOpenError,
+  ExchangeHttpError,
+  ExchangeTimeoutError,
+  FetchLike,
+  HttpClientOptions,
+  createHttpClient,
+  exchangeErrorStatus,
+} from './http-client';
+
+const URL = 'https://futures.kraken.com/derivatives/api/v3/tickers';
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Client on a fake clock - sleep advances the clock and is recorded
+ */
+function fakeClient(responses: Array<Response | Error>, overrides: Partial<HttpClientOptions> = {}) {
+  let clock = 0;
+  const sleeps: number[] = [];
+  const calls: RequestInit[] = [];
+  const fetch: FetchLike = async (_url, init) => {
+    calls.push(init);
+    const next = responses.shift();
+    if (!next) throw new Error('No more responses');
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  const client = createHttpClient({
+    fetch,
+    now: () => clock,
+    sleep: async ms => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+    random: () => 1,
+    ...overrides,
+  });
+  return { client, sleeps, calls, advance: (ms: number) => { clock += ms; } };
+}
+
+test('retries a GET on 5xx with exponential backoff', async () => {
+  const { client, sleeps, calls } = fakeClient([
+    json({}, 503),
+    new TypeError('socket hang up'),
+    json({ result: 'success' }),
+  ]);
+  assert.deepEqual(await client.getJson(URL), { result: 'success' });
+  assert.equal(calls.length, 3);
+  assert.deepEqual(sleeps, [250, 500]);
+});
+
+test('backoff uses full jitter and is capped at maxDelayMs', async () => {
+  const { client, sleeps } = fakeClient(
+    [json({}, 500), json({}, 500), json({}, 500), json({ ok: true })],
+    { retries: 3, baseDelayMs: 1000, maxDelayMs: 3000, random: () => 0.5 }
+  );
+  await client.getJson(URL);
+  assert.deepEqual(sleeps, [500, 1000, 1500]);
+});
+
+test('honours Retry-After on 429, up to maxDelayMs', async () => {
+  const { client, sleeps } = fakeClient([
+    json({}, 429, { 'Retry-After': '2' }),
+    json({}, 429, { 'Retry-After': '60' }),
+    json({ ok: true }),
+  ]);
+  await client.getJson(URL);
+  assert.deepEqual(sleeps, [2000, 5000]);
+});
+
+test('gives up after the retries and throws the last error', async () => {
+  const { client, calls } = fakeClient([json({}, 502), json({}, 502), json({}, 502)]);
+  await assert.rejects(client.getJson(URL), (error: unknown) => {
+    assert.ok(error instanceof ExchangeHttpError);
+    assert.equal(error.status, 502);
+    assert.equal(exchangeErrorStatus(error), 502);
+    return true;
+  });
+  assert.equal(calls.length, 3);
+});
+
+test('never retries a POST or a 4xx', async () => {
+  const post = fakeClient([json({}, 503), json({ ok: true })]);
+  await assert.rejects(post.client.getJson(URL, { method: 'POST', body: 'a=1' }), ExchangeHttpError);
+  assert.equal(post.calls.length, 1);
+
+  const notFound = fakeClient([json({}, 404), json({ ok: true })]);
+  await assert.rejects(notFound.client.getJson(URL), (error: unknown) => {
+    assert.ok(error instanceof ExchangeHttpError);
+    assert.equal(error.code, 'httpError');
+    assert.equal(error.retryable, false);
+    return true;
+  });
+  assert.equal(notFound.calls.length, 1);
+});
+
+test('aborts an attempt after the timeout', async () => {
+  const hanging: FetchLike = (_url, init) => new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+  const client = createHttpClient({ fetch: hanging, timeoutMs: 5, retries: 0 });
+  await assert.rejects(client.getJson(URL), (error: unknown) => {
+    assert.ok(error instanceof ExchangeTimeoutError);
+    assert.equal(exchangeErrorStatus(error), 504);
+    return true;
+  });
+});
+
+test('opens the circuit after repeated failures and closes it after a good probe', async () => {
+  const { client, calls, advance } = fakeClient(
+    [json({}, 500), json({}, 500), json({}, 500), json({ ok: true })],
+    { retries: 0, breakerThreshold: 3, breakerResetMs: 30000 }
+  );
+
+  for (let i = 0; i < 3; i++) {
+    await assert.rejects(client.getJson(URL), ExchangeHttpError);
+  }
+
+  // Open - fails fast without calling the venue
+  await assert.rejects(client.getJson(URL), (error: unknown) => {
+    assert.ok(error instanceof CircuitOpenError);
+    assert.equal(exchangeErrorStatus(error), 503);
+    return true;
+  });
+  assert.equal(calls.length, 3);
+
+  // Half-open after the reset time - the probe succeeds and closes the circuit
+  advance(30000);
+  assert.deepEqual(await client.getJson(URL), { ok: true });
+  assert.equal(calls.length, 4);
+});
+
+test('a failed probe re-opens the circuit straight away', async () => {
+  const { client, calls, advance } = fakeClient(
+    [json({}, 500), json({}, 500), json({}, 500)],
+    { retries: 0, breakerThreshold: 2, breakerResetMs: 1000 }
+  );
+  await assert.rejects(client.getJson(URL), ExchangeHttpError);
+  await assert.rejects(client.getJson(URL), ExchangeHttpError);
+
+  advance(1000);
+  await assert.rejects(client.getJson(URL), ExchangeHttpError);
+  await assert.rejects(client.getJson(URL), CircuitOpenError);
+  assert.equal(calls.length, 3);
+});
+
+test('circuits are tracked per host', async () => {
+  const { client } = fakeClient(
+    [json({}, 500), json({ ok: true })],
+    { retries: 0, breakerThreshold: 1 }
+  );
+  await assert.rejects(client.getJson(URL), ExchangeHttpError);
+  await assert.rejects(client.getJson(URL), CircuitOpenError);
+  assert.deepEqual(await client.getJson('https://fapi.binance.com/fapi/v1/premiumIndex'), { ok: true });
+});
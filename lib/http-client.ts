@@ -0,0 +1,346 @@
+// Shared HTTP client for exchange REST calls
+// Kraken and Binance requests, public and signed, all go through one client, which adds:
+// - a timeout per attempt
+// - retries with exponential backoff and full jitter on timeouts, network errors,
+//   429 and 5xx (a Retry-After header is honoured, up to maxDelayMs)
+// - a token bucket per host, so a fan-out stays inside the venue's rate limit
+// - a circuit breaker per host: after breakerThreshold failed attempts in a row,
+//   calls fail fast until breakerResetMs has passed, then one probe is let through
+//
+// Failures are ExchangeError subclasses. Routes map them to a status with
+// exchangeErrorStatus. fetch, the clock, sleep and the random source are
+// injectable, so retries and limits can be exercised with a fake transport.
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export type ExchangeErrorCode =
+  | 'timeout'
+  | 'network'
+  | 'rateLimited'
+  | 'httpError'
+  | 'apiError'
+  | 'circuitOpen';
+
+/**
+ * Base class for failed exchange calls
+ * retryable errors are retried by the client and count towards the circuit breaker
+ */
+export class ExchangeError extends Error {
+  readonly code: ExchangeErrorCode;
+  readonly host: string;
+  readonly retryable: boolean;
+
+  constructor(code: ExchangeErrorCode, host: string, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ExchangeError';
+    this.code = code;
+    this.host = host;
+    this.retryable = retryable;
+  }
+}
+
+export class ExchangeTimeoutError extends ExchangeError {
+  readonly timeoutMs: number;
+
+  constructor(host: string, timeoutMs: number) {
+    super('timeout', host, `${host} did not respond within ${timeoutMs}ms`, true);
+    this.name = 'ExchangeTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class ExchangeNetworkError extends ExchangeError {
+  constructor(host: string, reason: string) {
+    super('network', host, `${host} request failed: ${reason}`, true);
+    this.name = 'ExchangeNetworkError';
+  }
+}
+
+/**
+ * Non-2xx response - 429 and 5xx are retryable
+ */
+export class ExchangeHttpError extends ExchangeError {
+  readonly status: number;
+  readonly retryAfterMs: number | null;
+
+  constructor(host: string, status: number, statusText: string, retryAfterMs: number | null = null) {
+    super(
+      status === 429 ? 'rateLimited' : 'httpError',
+      host,
+      `${host} error: ${status} ${statusText}`.trim(),
+      status === 429 || status >= 500
+    );
+    this.name = 'ExchangeHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The venue answered, but with an error or an unexpected body
+ */
+export class ExchangeApiError extends ExchangeError {
+  constructor(host: string, message: string) {
+    super('apiError', host, message, false);
+    this.name = 'ExchangeApiError';
+  }
+}
+
+export class CircuitOpenError extends ExchangeError {
+  readonly retryAt: string;
+
+  constructor(host: string, retryAt: number) {
+    super('circuitOpen', host, `${host} circuit open after repeated failures, retry after ${new Date(retryAt).toISOString()}`, false);
+    this.name = 'CircuitOpenError';
+    this.retryAt = new Date(retryAt).toISOString();
+  }
+}
+
+/**
+ * HTTP status a route should answer with for a failed call
+ */
+export function exchangeErrorStatus(error: unknown): number {
+  if (!(error instanceof ExchangeError)) return 500;
+  if (error.code === 'timeout') return 504;
+  if (error.code === 'circuitOpen' || error.code === 'rateLimited') return 503;
+  return 502;
+}
+
+/**
+ * Error code for route responses - undefined for non-exchange errors
+ */
+export function exchangeErrorCode(error: unknown): ExchangeErrorCode | undefined {
+  return error instanceof ExchangeError ? error.code : undefined;
+}
+
+export interface RateLimit {
+  capacity: number;           // Burst size
+  refillPerSecond: number;    // Sustained requests per second
+}
+
+export interface HttpClientOptions {
+  fetch: FetchLike;
+  timeoutMs: number;
+  retries: number;            // Extra attempts for GET - other methods are never retried
+  baseDelayMs: number;
+  maxDelayMs: number;
+  rateLimits: Record<string, RateLimit>;   // By host
+  defaultRateLimit: RateLimit;
+  breakerThreshold: number;   // Failed attempts in a row that open the circuit
+  breakerResetMs: number;
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+export const DEFAULT_HTTP_CLIENT_OPTIONS: HttpClientOptions = {
+  fetch: (url, init) => fetch(url, init),
+  timeoutMs: 10000,
+  retries: 2,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  rateLimits: {
+    'futures.kraken.com': { capacity: 10, refillPerSecond: 5 },
+    'fapi.binance.com': { capacity: 20, refillPerSecond: 10 },
+  },
+  defaultRateLimit: { capacity: 10, refillPerSecond: 5 },
+  breakerThreshold: 5,
+  breakerResetMs: 30000,
+  now: () => Date.now(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  random: Math.random,
+};
+
+export interface RequestOptions extends Omit<RequestInit, 'signal' | 'headers'> {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export interface HttpClient {
+  /** Parsed JSON body - throws an ExchangeError on failure */
+  getJson<T = unknown>(url: string, options?: RequestOptions): Promise<T>;
+}
+
+interface HostState {
+  tokens: number;
+  refilledAt: number;
+  failures: number;
+  openUntil: number | null;
+  probing: boolean;
+}
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  'Accept': 'application/json',
+  'User-Agent': 'Mozilla/5.0 (compatible; TradingBot/1.0)',
+};
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - now) : null;
+}
+
+export function createHttpClient(overrides: Partial<HttpClientOptions> = {}): HttpClient {
+  const options: HttpClientOptions = { ...DEFAULT_HTTP_CLIENT_OPTIONS, ...overrides };
+  const hosts = new Map<string, HostState>();
+
+  const hostState = (host: string): HostState => {
+    let state = hosts.get(host);
+    if (!state) {
+      const limit = options.rateLimits[host] ?? options.defaultRateLimit;
+      state = { tokens: limit.capacity, refilledAt: options.now(), failures: 0, openUntil: null, probing: false };
+      hosts.set(host, state);
+    }
+    return state;
+  };
+
+  // Wait for a token from the host's bucket
+  const acquire = async (host: string, state: HostState): Promise<void> => {
+    const limit = options.rateLimits[host] ?? options.defaultRateLimit;
+    for (;;) {
+      const now = options.now();
+      state.tokens = Math.min(limit.capacity, state.tokens + (now - state.refilledAt) / 1000 * limit.refillPerSecond);
+      state.refilledAt = now;
+      if (state.tokens >= 1) {
+        state.tokens -= 1;
+        return;
+      }
+      await options.sleep(Math.ceil((1 - state.tokens) / limit.refillPerSecond * 1000));
+    }
+  };
+
+  // Open: fail fast. Past the reset time: let a single probe through (half-open)
+  const checkCircuit = (host: string, state: HostState): void => {
+    if (state.openUntil === null) return;
+    if (options.now() < state.openUntil || state.probing) {
+      throw new CircuitOpenError(host, state.openUntil);
+    }
+    state.probing = true;
+  };
+
+  // The host answered - close the circuit
+  const recordResponse = (state: HostState): void => {
+    state.failures = 0;
+    state.openUntil = null;
+    state.probing = false;
+  };
+
+  const recordFailure = (state: HostState): void => {
+    state.failures++;
+    // A failed probe re-opens straight away
+    if (state.failures >= options.breakerThreshold || state.openUntil !== null) {
+      state.openUntil = options.now() + options.breakerResetMs;
+    }
+    state.probing = false;
+  };
+
+  const attempt = async <T>(url: string, host: string, init: RequestInit, timeoutMs: number): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await options.fetch(url, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw new ExchangeHttpError(
+          host,
+          response.status,
+          response.statusText,
+          parseRetryAfter(response.headers.get('retry-after'), options.now())
+        );
+      }
+
+      const text = await response.text();
+      try {
+        return JSON.parse(text) as T;
+      } catch {
+        throw new ExchangeApiError(host, `${host} returned invalid JSON`);
+      }
+    } catch (error) {
+      if (error instanceof ExchangeError) throw error;
+      if (controller.signal.aborted) throw new ExchangeTimeoutError(host, timeoutMs);
+      throw new ExchangeNetworkError(host, error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Full jitter: uniform in [0, base * 2^attempt], capped
+  const backoffDelay = (attemptIndex: number, error: ExchangeError): number => {
+    if (error instanceof ExchangeHttpError && error.retryAfterMs !== null) {
+      return Math.min(error.retryAfterMs, options.maxDelayMs);
+    }
+    const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attemptIndex));
+    return Math.round(options.random() * ceiling);
+  };
+
+  return {
+    async getJson<T = unknown>(url: string, request: RequestOptions = {}): Promise<T> {
+      const { timeoutMs = options.timeoutMs, retries, headers, ...init } = request;
+      const method = (init.method ?? 'GET').toUpperCase();
+      const maxRetries = retries ?? (method === 'GET' ? options.retries : 0);
+      const host = new URL(url).host;
+      const state = hostState(host);
+
+      for (let attemptIndex = 0; ; attemptIndex++) {
+        checkCircuit(host, state);
+        await acquire(host, state);
+
+        try {
+          const body = await attempt<T>(url, host, { ...init, headers: { ...DEFAULT_HEADERS, ...headers } }, timeoutMs);
+          recordResponse(state);
+          return body;
+        } catch (error) {
+          const exchangeError = error as ExchangeError;
+          if (exchangeError.retryable) recordFailure(state);
+          else recordResponse(state);
+
+          if (!exchangeError.retryable || attemptIndex >= maxRetries) throw exchangeError;
+          await options.sleep(backoffDelay(attemptIndex, exchangeError));
+        }
+      }
+    },
+  };
+}
+
+let defaultClient: HttpClient | null = null;
+
+/**
+ * Process-wide client, so rate limits and circuit state are shared by every caller
+ */
+export function getHttpClient(): HttpClient {
+  if (!defaultClient) defaultClient = createHttpClient();
+  return defaultClient;
+}
+
+/**
+ * Replace the shared client - pass null to go back to the default
+ */
+export function setHttpClient(client: HttpClient | null): void {
+  defaultClient = client;
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, results in input order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,126 @@
+// Instrument registry
+// Kraken's /instruments endpoint decides which perpetuals exist and how they trade:
+// tick size, lot size, contract size, margin levels (max leverage) and tradeable status.
+//
+// - Refreshed from Kraken at most once per REGISTRY_TTL_MS, kept in memory
+// - The last good response is saved to INSTRUMENTS_PATH so a restart without
+//   network still knows the rules
+// - With neither, the watchlist is used with no trading rules (source: 'fallback')
+//
+// The watchlist (WATCHLIST env, comma separated) picks which assets the routes cover.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { toKrakenSymbol } from './kraken';
+import { Instrument, InstrumentRegistry, parseInstruments } from './instruments';
+import { getDefaultTransport } from './exchanges/transport';
+import { Transport } from './exchanges/types';
+
+const KRAKEN_INSTRUMENTS_URL = 'https://futures.kraken.com/derivatives/api/v3/instruments';
+const REGISTRY_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_WATCHLIST = ['BTC', 'ETH', 'SOL', 'XRP', 'LINK', 'LTC', 'DOGE', 'ADA', 'AVAX', 'MATIC'];
+
+let registry: InstrumentRegistry | null = null;
+let loadedAt = 0;
+
+/**
+ * Registry cache location - override with INSTRUMENTS_PATH
+ */
+export function getInstrumentsPath(): string {
+  return process.env.INSTRUMENTS_PATH || path.join(process.cwd(), '.data', 'instruments.json');
+}
+
+/**
+ * Assets the routes cover - override with WATCHLIST=BTC,ETH,SOL
+ */
+export function getWatchlist(): string[] {
+  const configured = (process.env.WATCHLIST || '')
+    .split(',')
+    .map(s => s.trim().toUpperCase())
+    .filter(Boolean);
+  return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_WATCHLIST;
+}
+
+// Watchlist with no trading rules - used when Kraken and the cache are both unavailable
+function fallbackRegistry(): InstrumentRegistry {
+  return {
+    instruments: getWatchlist().map(symbol => ({
+      symbol,
+      krakenSymbol: toKrakenSymbol(symbol),
+      type: 'flexible_futures',
+      tradeable: true,
+      tickSize: null,
+      lotSize: null,
+      contractSize: 1,
+      maxPositionSize: null,
+      maxLeverage: null,
+      marginLevels: [],
+      postOnly: false,
+    })),
+    source: 'fallback',
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+async function loadCachedRegistry(): Promise<InstrumentRegistry | null> {
+  try {
+    const cached = JSON.parse(await fs.readFile(getInstrumentsPath(), 'utf8')) as InstrumentRegistry;
+    return { ...cached, source: 'cache' };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to load instrument cache:', error);
+    }
+    return null;
+  }
+}
+
+async function saveRegistry(value: InstrumentRegistry): Promise<void> {
+  const file = getInstrumentsPath();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(value, null, 2), 'utf8');
+}
+
+/**
+ * Current registry - refreshed from Kraken once the TTL has passed
+ */
+export async function getInstrumentRegistry(
+  options: { refresh?: boolean; transport?: Transport } = {}
+): Promise<InstrumentRegistry> {
+  if (registry && registry.source === 'kraken' && !options.refresh && Date.now() - loadedAt < REGISTRY_TTL_MS) {
+    return registry;
+  }
+
+  try {
+    const transport = options.transport ?? getDefaultTransport();
+    const instruments = parseInstruments(await transport(KRAKEN_INSTRUMENTS_URL) as Parameters<typeof parseInstruments>[0]);
+    registry = { instruments, source: 'kraken', fetchedAt: new Date().toISOString() };
+    loadedAt = Date.now();
+    await saveRegistry(registry).catch(error => console.error('Failed to save instrument cache:', error));
+    return registry;
+  } catch (error) {
+    console.error('Instrument refresh failed:', error instanceof Error ? error.message : error);
+  }
+
+  // Keep serving what we have; retry Kraken on the next call
+  if (registry) return registry;
+  return (await loadCachedRegistry()) ?? fallbackRegistry();
+}
+
+/**
+ * Registry entry for an asset symbol, or undefined if Kraken does not list it
+ */
+export async function getInstrument(symbol: string): Promise<Instrument | undefined> {
+  const { instruments } = await getInstrumentRegistry();
+  return instruments.find(i => i.symbol === symbol.toUpperCase());
+}
+
+/**
+ * Watchlist assets that are listed and tradeable, in watchlist order
+ */
+export async function getWatchlistInstruments(): Promise<Instrument[]> {
+  const { instruments } = await getInstrumentRegistry();
+  return getWatchlist()
+    .map(symbol => instruments.find(i => i.symbol === symbol))
+    .filter((i): i is Instrument => i !== undefined && i.tradeable);
+}
@@ -0,0 +1,163 @@
+// Kraken instrument metadata and order trading rules
+// Pure - the registry that fetches and caches instruments is in instrument-store.ts
+
+import { fromKrakenSymbol } from './kraken';
+
+export interface MarginLevel {
+  contracts: number;          // Position size (contracts) from which this level applies
+  initialMargin: number;      // Fraction of notional
+  maintenanceMargin: number;
+}
+
+export interface Instrument {
+  symbol: string;             // Asset symbol, e.g. BTC
+  krakenSymbol: string;       // e.g. PF_XBTUSD
+  type: string;               // flexible_futures for PF_ perpetuals
+  tradeable: boolean;
+  tickSize: number | null;    // Price increment
+  lotSize: number | null;     // Size increment, from contractValueTradePrecision
+  contractSize: number;
+  maxPositionSize: number | null;
+  maxLeverage: number | null; // 1 / the lowest initial margin
+  marginLevels: MarginLevel[];
+  postOnly: boolean;
+}
+
+export interface InstrumentRegistry {
+  instruments: Instrument[];
+  source: 'kraken' | 'cache' | 'fallback';
+  fetchedAt: string;
+}
+
+// Fields we read from /instruments
+export interface KrakenInstrument {
+  symbol: string;
+  type: string;
+  tradeable: boolean;
+  tickSize?: number;
+  contractSize?: number;
+  contractValueTradePrecision?: number;
+  maxPositionSize?: number;
+  marginLevels?: { contracts?: number; numNonContractUnits?: number; initialMargin: number; maintenanceMargin: number }[];
+  postOnly?: boolean;
+}
+
+/**
+ * USD perpetuals from an /instruments response
+ */
+export function parseInstruments(data: { result?: string; instruments?: KrakenInstrument[] }): Instrument[] {
+  if (data.result !== 'success' || !Array.isArray(data.instruments)) {
+    throw new Error(`Kraken API returned: ${data.result ?? 'unexpected response'}`);
+  }
+
+  const instruments: Instrument[] = [];
+  for (const raw of data.instruments) {
+    const symbol = fromKrakenSymbol(raw.symbol);
+    if (!symbol) continue;
+
+    const marginLevels = (raw.marginLevels ?? []).map(level => ({
+      contracts: level.contracts ?? level.numNonContractUnits ?? 0,
+      initialMargin: level.initialMargin,
+      maintenanceMargin: level.maintenanceMargin,
+    }));
+    const lowestMargin = Math.min(...marginLevels.map(l => l.initialMargin).filter(m => m > 0));
+
+    instruments.push({
+      symbol,
+      krakenSymbol: raw.symbol.toUpperCase(),
+      type: raw.type,
+      tradeable: raw.tradeable,
+      tickSize: raw.tickSize && raw.tickSize > 0 ? raw.tickSize : null,
+      // Parsed from the exponent so 4 gives exactly 0.0001
+      lotSize: raw.contractValueTradePrecision !== undefined
+        ? Number(`1e${-raw.contractValueTradePrecision}`)
+        : null,
+      contractSize: raw.contractSize ?? 1,
+      maxPositionSize: raw.maxPositionSize ?? null,
+      maxLeverage: Number.isFinite(lowestMargin) ? Math.round(1 / lowestMargin) : null,
+      marginLevels,
+      postOnly: raw.postOnly ?? false,
+    });
+  }
+
+  return instruments;
+}
+
+export type OrderViolationRule = 'notTradeable' | 'lotSize' | 'minSize' | 'tickSize' | 'maxPositionSize' | 'maxLeverage';
+
+export interface OrderViolation {
+  rule: OrderViolationRule;
+  message: string;
+}
+
+// Floating point tolerant "is a multiple of"
+function isMultiple(value: number, step: number): boolean {
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < 1e-6;
+}
+
+/**
+ * Check an order against the instrument's trading rules
+ * Rules the registry has no data for (fallback source) are skipped
+ */
+export function validateOrder(
+  instrument: Instrument,
+  order: { size: number; leverage?: number; limitPrice?: number; stopPrice?: number; prices?: number[] }
+): OrderViolation[] {
+  const violations: OrderViolation[] = [];
+  const { symbol, lotSize, tickSize } = instrument;
+
+  if (!instrument.tradeable) {
+    violations.push({ rule: 'notTradeable', message: `${symbol} is not tradeable` });
+  }
+
+  if (lotSize !== null) {
+    if (order.size < lotSize) {
+      violations.push({ rule: 'minSize', message: `${symbol} size ${order.size} is below the minimum of ${lotSize}` });
+    } else if (!isMultiple(order.size, lotSize)) {
+      violations.push({ rule: 'lotSize', message: `${symbol} size ${order.size} is not a multiple of ${lotSize}` });
+    }
+  }
+
+  if (tickSize !== null) {
+    const prices = [order.limitPrice, order.stopPrice, ...(order.prices ?? [])]
+      .filter((p): p is number => p !== undefined);
+    for (const price of prices) {
+      if (!isMultiple(price, tickSize)) {
+        violations.push({ rule: 'tickSize', message: `${symbol} price ${price} is not a multiple of the ${tickSize} tick` });
+      }
+    }
+  }
+
+  if (instrument.maxPositionSize !== null && order.size > instrument.maxPositionSize) {
+    violations.push({
+      rule: 'maxPositionSize',
+      message: `${symbol} size ${order.size} is above the ${instrument.maxPositionSize} maximum`,
+    });
+  }
+
+  if (instrument.maxLeverage !== null && order.leverage !== undefined && order.leverage > instrument.maxLeverage) {
+    violations.push({
+      rule: 'maxLeverage',
+      message: `${symbol} leverage ${order.leverage}x is above the ${instrument.maxLeverage}x maximum`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Round a size down to the lot size - unchanged when the lot size is unknown
+ */
+export function floorToLot(size: number, lotSize: number | null): number {
+  if (lotSize === null) return size;
+  return Number((Math.floor(size / lotSize + 1e-9) * lotSize).toFixed(12));
+}
+
+/**
+ * Round a price to the nearest tick - unchanged when the tick size is unknown
+ */
+export function roundToTick(price: number, tickSize: number | null): number {
+  if (tickSize === null) return price;
+  return Number((Math.round(price / tickSize) * tickSize).toFixed(12));
+}
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KrakenCredentials, KrakenOrderError, getOpenOrders, sendOrder, signRequest } from './kraken-private';
+import { ExchangeHttpError, FetchLike, createHttpClient, setHttpClient } from './http-client';
+
+// Base64 of 'kraken-futures-test-secret'
+const SECRET = 'a3Jha2VuLWZ1dHVyZXMtdGVzdC1zZWNyZXQ=';
+const PATH = '/api/v3/sendorder';
+const POST_DATA = 'orderType=mkt&symbol=PF_XBTUSD&side=buy&size=0.01';
+const NONCE = '1700000000000';
+
+test('signRequest matches a known vector', () => {
+  // base64(HMAC-SHA512(secret, SHA256(postData + nonce + path))), computed with node:crypto
+  assert.equal(
+    signRequest(PATH, POST_DATA, NONCE, SECRET),
+    'RQSNae1laK2xkVMo0XhEknNXVxAWdag5fZdAhj8TOIXd4kyIr0b8sRNGB9PrrW01gTC2CFREocLg9kyOwBeA5w=='
+  );
+});
+
+test('signRequest changes with each input', () => {
+  const signature = signRequest(PATH, POST_DATA, NONCE, SECRET);
+  assert.notEqual(signRequest(PATH, POST_DATA, '1700000000001', SECRET), signature);
+  assert.notEqual(signRequest(PATH, 'size=0.02', NONCE, SECRET), signature);
+  assert.notEqual(signRequest('/api/v3/cancelorder', POST_DATA, NONCE, SECRET), signature);
+});
+
+const CREDENTIALS: KrakenCredentials = {
+  apiKey: 'test-key',
+  apiSecret: SECRET,
+  baseUrl: 'https://futures.kraken.com/derivatives',
+};
+
+/**
+ * Swap in a shared client over a fake transport for the length of a test
+ */
+function useFakeTransport(t: { after: (fn: () => void) => void }, responses: Response[]) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fetch: FetchLike = async (url, init) => {
+    calls.push({ url, init });
+    const next = responses.shift();
+    if (!next) throw new Error('No more responses');
+    return next;
+  };
+  setHttpClient(createHttpClient({ fetch, sleep: async () => {}, random: () => 0 }));
+  t.after(() => setHttpClient(null));
+  return calls;
+}
+
+test('signed requests go through the shared client with auth headers', async t => {
+  const calls = useFakeTransport(t, [
+    new Response(JSON.stringify({ result: 'success', openOrders: [] })),
+  ]);
+  assert.deepEqual(await getOpenOrders(CREDENTIALS), []);
+
+  const headers = calls[0].init.headers as Record<string, string>;
+  assert.equal(calls[0].url, 'https://futures.kraken.com/derivatives/api/v3/openorders');
+  assert.equal(headers.APIKey, 'test-key');
+  assert.equal(headers.Authent, signRequest('/api/v3/openorders', '', headers.Nonce, SECRET));
+});
+
+test('an order POST is sent once and HTTP failures surface as ExchangeError', async t => {
+  const calls = useFakeTransport(t, [
+    new Response('', { status: 503, statusText: 'Service Unavailable' }),
+    new Response(JSON.stringify({ result: 'success' })),
+  ]);
+  await assert.rejects(
+    sendOrder({ orderType: 'mkt', symbol: 'PF_XBTUSD', side: 'buy', size: 0.01 }, CREDENTIALS),
+    ExchangeHttpError
+  );
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0].init.method, 'POST');
+});
+
+test('an error result from Kraken is a KrakenOrderError', async t => {
+  useFakeTransport(t, [new Response(JSON.stringify({ result: 'error', error: 'apiLimitExceeded' }))]);
+  await assert.rejects(getOpenOrders(CREDENTIALS), (error: unknown) => {
+    assert.ok(error instanceof KrakenOrderError);
+    assert.equal(error.status, 'apiLimitExceeded');
+    return true;
+  });
+});
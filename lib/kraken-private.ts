@@ -0,0 +1,344 @@
+// Kraken Futures private API wrapper
+// Authenticated endpoints - requires KRAKEN_API_KEY and KRAKEN_API_SECRET
+
+import CryptoJS from 'crypto-js';
+import { getHttpClient } from './http-client';
+
+// Base URL without the /api/v3 suffix - the signed endpoint path starts at /api/v3
+// Override with KRAKEN_FUTURES_BASE_URL to point at a local mock server
+const DEFAULT_PRIVATE_BASE = 'https://futures.kraken.com/derivatives';
+
+export type OrderType = 'mkt' | 'lmt' | 'stp';
+export type OrderSide = 'buy' | 'sell';
+
+export interface KrakenCredentials {
+  apiKey: string;
+  apiSecret: string;  // Base64 encoded, as issued by Kraken
+  baseUrl: string;
+}
+
+export interface SendOrderParams {
+  orderType: OrderType;
+  symbol: string;      // Kraken symbol, e.g. PF_XBTUSD
+  side: OrderSide;
+  size: number;
+  limitPrice?: number; // Required for lmt, optional for stp (stop-limit)
+  stopPrice?: number;  // Required for stp
+  reduceOnly?: boolean;
+  cliOrdId?: string;
+}
+
+export interface KrakenOrderEvent {
+  type: string;
+  executionId?: string;
+  price?: number;
+  amount?: number;
+  orderPriorExecution?: { quantity: number; filled: number };
+  order?: { orderId: string; quantity: number; filled: number };
+}
+
+export interface KrakenSendStatus {
+  order_id?: string;
+  status: string;
+  receivedTime?: string;
+  orderEvents?: KrakenOrderEvent[];
+}
+
+export interface KrakenSendOrderResponse {
+  result: string;
+  sendStatus?: KrakenSendStatus;
+  error?: string;
+  serverTime: string;
+}
+
+export interface PlacedOrder {
+  orderId: string;
+  status: string;
+  filledSize: number;
+  averagePrice: number | null;
+  receivedTime: string;
+}
+
+// sendStatus values that mean the order reached the book (or filled)
+const ACCEPTED_STATUSES = ['placed', 'partiallyFilled', 'filled'];
+
+// Human readable reasons for sendStatus rejections
+export const ORDER_REJECTION_REASONS: Record<string, string> = {
+  insufficientAvailableFunds: 'Insufficient available funds for this order',
+  invalidSize: 'Order size is invalid for this contract',
+  invalidPrice: 'Order price is invalid for this contract',
+  marketSuspended: 'Market is suspended',
+  marketInactive: 'Market is inactive',
+  tooManySmallOrders: 'Too many small orders open on this contract',
+  wouldCauseLiquidation: 'Order would cause the account to be liquidated',
+  maxPositionViolation: 'Order would exceed the maximum position size',
+  outsidePriceCollar: 'Order price is outside the allowed price collar',
+  wouldNotReducePosition: 'Reduce-only order would not reduce the position',
+  clientOrderIdAlreadyExist: 'Client order id is already in use',
+  clientOrderIdTooBig: 'Client order id is too long',
+  iocWouldNotExecute: 'Immediate-or-cancel order would not execute',
+  postWouldExecute: 'Post-only order would execute immediately',
+  selfFill: 'Order would fill against one of our own orders',
+  unknownOrder: 'Order not found',
+};
+
+/**
+ * Structured error for rejected or failed private API calls
+ */
+export class KrakenOrderError extends Error {
+  readonly status: string;
+  readonly orderId?: string;
+
+  constructor(status: string, message: string, orderId?: string) {
+    super(message);
+    this.name = 'KrakenOrderError';
+    this.status = status;
+    this.orderId = orderId;
+  }
+}
+
+/**
+ * Read API credentials from the environment
+ * Returns null when live trading is not configured
+ */
+export function getKrakenCredentials(): KrakenCredentials | null {
+  const apiKey = process.env.KRAKEN_API_KEY;
+  const apiSecret = process.env.KRAKEN_API_SECRET;
+  if (!apiKey || !apiSecret) return null;
+
+  return {
+    apiKey,
+    apiSecret,
+    baseUrl: process.env.KRAKEN_FUTURES_BASE_URL || DEFAULT_PRIVATE_BASE,
+  };
+}
+
+/**
+ * Build the Authent header value
+ * Authent = base64(HMAC-SHA512(base64decode(secret), SHA256(postData + nonce + endpointPath)))
+ */
+export function signRequest(
+  endpointPath: string,
+  postData: string,
+  nonce: string,
+  apiSecret: string
+): string {
+  const message = CryptoJS.SHA256(postData + nonce + endpointPath);
+  const secret = CryptoJS.enc.Base64.parse(apiSecret);
+  return CryptoJS.HmacSHA512(message, secret).toString(CryptoJS.enc.Base64);
+}
+
+let lastNonce = 0;
+
+/**
+ * Strictly increasing nonce - Kraken rejects repeated or lower values
+ */
+function createNonce(): string {
+  lastNonce = Math.max(Date.now(), lastNonce + 1);
+  return String(lastNonce);
+}
+
+function encodeParams(params: Record<string, string | number | boolean | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.append(key, String(value));
+  }
+  return search.toString();
+}
+
+/**
+ * Send a signed request to a private endpoint through the shared HTTP client
+ * Transport and HTTP failures surface as ExchangeError. POSTs are never retried,
+ * so an order is not sent twice after a timeout.
+ * Throws KrakenOrderError when Kraken answers with an error result
+ */
+async function privateRequest<T>(
+  method: 'GET' | 'POST',
+  endpointPath: string,
+  params: Record<string, string | number | boolean | undefined>,
+  credentials: KrakenCredentials
+): Promise<T> {
+  const postData = encodeParams(params);
+  const nonce = createNonce();
+  const authent = signRequest(endpointPath, postData, nonce, credentials.apiSecret);
+
+  const url = method === 'GET' && postData
+    ? `${credentials.baseUrl}${endpointPath}?${postData}`
+    : `${credentials.baseUrl}${endpointPath}`;
+
+  const data = await getHttpClient().getJson<T & { result?: string; error?: string }>(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'APIKey': credentials.apiKey,
+      'Nonce': nonce,
+      'Authent': authent,
+    },
+    body: method === 'POST' ? postData : undefined,
+    cache: 'no-store',
+    retries: method === 'POST' ? 0 : undefined,
+  });
+
+  if (data.result !== 'success') {
+    throw new KrakenOrderError(data.error || 'apiError', `Kraken API returned error: ${data.error || data.result}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Place an order via /sendorder
+ * Throws KrakenOrderError when Kraken rejects the order
+ */
+export async function sendOrder(
+  params: SendOrderParams,
+  credentials: KrakenCredentials
+): Promise<PlacedOrder> {
+  if (params.orderType === 'lmt' && params.limitPrice === undefined) {
+    throw new KrakenOrderError('invalidArgument', 'Limit orders require a limitPrice');
+  }
+  if (params.orderType === 'stp' && params.stopPrice === undefined) {
+    throw new KrakenOrderError('invalidArgument', 'Stop orders require a stopPrice');
+  }
+
+  const data = await privateRequest<KrakenSendOrderResponse>('POST', '/api/v3/sendorder', {
+    orderType: params.orderType,
+    symbol: params.symbol,
+    side: params.side,
+    size: params.size,
+    limitPrice: params.limitPrice,
+    stopPrice: params.stopPrice,
+    reduceOnly: params.reduceOnly,
+    cliOrdId: params.cliOrdId,
+  }, credentials);
+
+  const sendStatus = data.sendStatus;
+  if (!sendStatus) {
+    throw new KrakenOrderError('apiError', 'Kraken API response missing sendStatus');
+  }
+
+  if (!ACCEPTED_STATUSES.includes(sendStatus.status)) {
+    const reason = ORDER_REJECTION_REASONS[sendStatus.status] || `Order rejected: ${sendStatus.status}`;
+    throw new KrakenOrderError(sendStatus.status, reason, sendStatus.order_id);
+  }
+
+  // Sum executions to get the filled quantity and average price
+  const executions = (sendStatus.orderEvents || []).filter(e => e.type === 'EXECUTION');
+  const filledSize = executions.reduce((sum, e) => sum + (e.amount || 0), 0);
+  const notional = executions.reduce((sum, e) => sum + (e.amount || 0) * (e.price || 0), 0);
+
+  return {
+    orderId: sendStatus.order_id || '',
+    status: sendStatus.status,
+    filledSize,
+    averagePrice: filledSize > 0 ? notional / filledSize : null,
+    receivedTime: sendStatus.receivedTime || data.serverTime,
+  };
+}
+
+export interface KrakenOpenOrder {
+  order_id: string;
+  symbol: string;
+  side: OrderSide;
+  orderType: string;
+  limitPrice?: number;
+  stopPrice?: number;
+  unfilledSize: number;
+  filledSize: number;
+  reduceOnly: boolean;
+  status: string;
+  receivedTime: string;
+}
+
+export interface KrakenFill {
+  fill_id: string;
+  order_id: string;
+  symbol: string;
+  side: OrderSide;
+  size: number;
+  price: number;
+  fillTime: string;
+  fillType: string;
+}
+
+/**
+ * Cancel an order via /cancelorder
+ * Orders that already filled or were cancelled count as success
+ */
+export async function cancelOrder(orderId: string, credentials: KrakenCredentials): Promise<string> {
+  const data = await privateRequest<{ cancelStatus: { status: string } }>(
+    'POST', '/api/v3/cancelorder', { order_id: orderId }, credentials
+  );
+  const status = data.cancelStatus?.status;
+  if (status !== 'cancelled' && status !== 'filled' && status !== 'notFound') {
+    throw new KrakenOrderError(status || 'apiError', `Cancel rejected: ${status}`, orderId);
+  }
+  return status;
+}
+
+/**
+ * Change the size of a resting order via /editorder
+ */
+export async function editOrderSize(orderId: string, size: number, credentials: KrakenCredentials): Promise<void> {
+  const data = await privateRequest<{ editStatus: { status: string } }>(
+    'POST', '/api/v3/editorder', { orderId, size }, credentials
+  );
+  const status = data.editStatus?.status;
+  if (status !== 'edited') {
+    const reason = ORDER_REJECTION_REASONS[status] || `Edit rejected: ${status}`;
+    throw new KrakenOrderError(status || 'apiError', reason, orderId);
+  }
+}
+
+/**
+ * All resting orders on the account
+ */
+export async function getOpenOrders(credentials: KrakenCredentials): Promise<KrakenOpenOrder[]> {
+  const data = await privateRequest<{ openOrders: KrakenOpenOrder[] }>(
+    'GET', '/api/v3/openorders', {}, credentials
+  );
+  return data.openOrders || [];
+}
+
+/**
+ * Recent fills on the account (most recent 100)
+ */
+export async function getFills(credentials: KrakenCredentials): Promise<KrakenFill[]> {
+  const data = await privateRequest<{ fills: KrakenFill[] }>(
+    'GET', '/api/v3/fills', {}, credentials
+  );
+  return data.fills || [];
+}
+
+export interface KrakenOpenPosition {
+  side: 'long' | 'short';
+  symbol: string;
+  price: number;
+  fillTime: string;
+  size: number;
+  unrealizedFunding?: number;
+}
+
+/**
+ * Open positions on the account
+ */
+export async function getOpenPositions(credentials: KrakenCredentials): Promise<KrakenOpenPosition[]> {
+  const data = await privateRequest<{ openPositions: KrakenOpenPosition[] }>(
+    'GET', '/api/v3/openpositions', {}, credentials
+  );
+  return data.openPositions || [];
+}
+
+/**
+ * Portfolio value of the multi-collateral (flex) account in USD
+ */
+export async function getAccountEquity(credentials: KrakenCredentials): Promise<number> {
+  const data = await privateRequest<{ accounts: { flex?: { portfolioValue?: number } } }>(
+    'GET', '/api/v3/accounts', {}, credentials
+  );
+  const equity = data.accounts?.flex?.portfolioValue;
+  if (typeof equity !== 'number') {
+    throw new KrakenOrderError('apiError', 'Kraken API response missing flex account portfolioValue');
+  }
+  return equity;
+}
@@ -0,0 +1,257 @@
+// Kraken Futures WebSocket ticker feed
+// Keeps an in-memory TickerData map current from the public `ticker` feed
+//
+// - Subscribes to `ticker` and `heartbeat` for the configured products
+// - Reconnects with exponential backoff and resubscribes after every reconnect
+// - Treats a connection with no messages for staleTimeoutMs as dead
+//
+// Point KRAKEN_FUTURES_WS_URL at a local mock (npm run mock-ws) for development and tests
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { TickerData, toKrakenSymbol } from './kraken';
+import { getWatchlist } from './instrument-store';
+
+const DEFAULT_WS_URL = 'wss://futures.kraken.com/ws/v1';
+
+export type FeedStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'stopped';
+
+export interface TickerFeedOptions {
+  url: string;
+  productIds: string[];       // Kraken symbols, e.g. PF_XBTUSD
+  minReconnectMs: number;
+  maxReconnectMs: number;
+  staleTimeoutMs: number;
+}
+
+// Fields we read from a `ticker` feed message
+export interface KrakenWsTicker {
+  feed: 'ticker';
+  product_id: string;
+  time: number;
+  bid: number;
+  ask: number;
+  bid_size: number;
+  ask_size: number;
+  volume: number;
+  index: number;
+  last: number;
+  change: number;             // 24h change in percent
+  funding_rate?: number;
+  funding_rate_prediction?: number;
+  suspended: boolean;
+  tag: string;
+  pair: string;
+  openInterest: number;
+  markPrice: number;
+  lastSize?: number;
+}
+
+/**
+ * Convert a feed message into the REST TickerData shape
+ */
+export function toTickerData(message: KrakenWsTicker, previous?: TickerData): TickerData {
+  const open24h = message.last !== undefined && message.change !== undefined && message.change !== -100
+    ? message.last / (1 + message.change / 100)
+    : previous?.open24h ?? 0;
+
+  return {
+    symbol: message.product_id,
+    tag: message.tag ?? previous?.tag ?? 'perpetual',
+    pair: message.pair ?? previous?.pair ?? '',
+    markPrice: message.markPrice ?? previous?.markPrice ?? 0,
+    bid: message.bid ?? previous?.bid ?? 0,
+    bidSize: message.bid_size ?? previous?.bidSize ?? 0,
+    ask: message.ask ?? previous?.ask ?? 0,
+    askSize: message.ask_size ?? previous?.askSize ?? 0,
+    vol24h: message.volume ?? previous?.vol24h ?? 0,
+    openInterest: message.openInterest ?? previous?.openInterest ?? 0,
+    open24h,
+    last: message.last ?? previous?.last ?? 0,
+    lastTime: new Date(message.time ?? Date.now()).toISOString(),
+    lastSize: message.lastSize ?? previous?.lastSize ?? 0,
+    suspended: message.suspended ?? previous?.suspended ?? false,
+    fundingRate: message.funding_rate ?? previous?.fundingRate ?? 0,
+    fundingRatePrediction: message.funding_rate_prediction ?? previous?.fundingRatePrediction ?? 0,
+    indexPrice: message.index ?? previous?.indexPrice ?? 0,
+  };
+}
+
+/**
+ * WebSocket ticker client
+ * Emits 'ticker' (TickerData) on every update and 'status' (FeedStatus) on changes.
+ * Connection errors are logged and retried rather than emitted.
+ */
+export class KrakenTickerFeed extends EventEmitter {
+  readonly options: TickerFeedOptions;
+  private socket: WebSocket | null = null;
+  private tickers = new Map<string, TickerData>();
+  private status: FeedStatus = 'idle';
+  private attempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt = 0;
+
+  constructor(options: Partial<TickerFeedOptions> = {}) {
+    super();
+    this.options = {
+      url: process.env.KRAKEN_FUTURES_WS_URL || DEFAULT_WS_URL,
+      productIds: getWatchlist().map(toKrakenSymbol),
+      minReconnectMs: 1000,
+      maxReconnectMs: 30000,
+      staleTimeoutMs: 30000,
+      ...options,
+    };
+  }
+
+  start(): void {
+    if (this.status !== 'idle' && this.status !== 'stopped') return;
+    this.connect();
+  }
+
+  stop(): void {
+    this.setStatus('stopped');
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => undefined);
+      this.socket.terminate();
+      this.socket = null;
+    }
+  }
+
+  getStatus(): FeedStatus {
+    return this.status;
+  }
+
+  getTicker(productId: string): TickerData | undefined {
+    return this.tickers.get(productId.toUpperCase());
+  }
+
+  getTickers(): TickerData[] {
+    return Array.from(this.tickers.values());
+  }
+
+  /**
+   * Milliseconds since the last message, or Infinity before the first one
+   */
+  getAge(now: number = Date.now()): number {
+    return this.lastMessageAt > 0 ? now - this.lastMessageAt : Infinity;
+  }
+
+  private setStatus(status: FeedStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.staleTimer) clearInterval(this.staleTimer);
+    this.reconnectTimer = null;
+    this.staleTimer = null;
+  }
+
+  private connect(): void {
+    this.setStatus(this.attempts === 0 ? 'connecting' : 'reconnecting');
+
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.attempts = 0;
+      this.lastMessageAt = Date.now();
+      this.setStatus('open');
+      this.subscribe(socket);
+      this.watchStale(socket);
+    });
+
+    socket.on('message', (data) => {
+      this.lastMessageAt = Date.now();
+      this.handleMessage(data.toString());
+    });
+
+    socket.on('error', (error) => {
+      console.error('Kraken WebSocket error:', error.message);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    });
+  }
+
+  private subscribe(socket: WebSocket): void {
+    socket.send(JSON.stringify({ event: 'subscribe', feed: 'heartbeat' }));
+    socket.send(JSON.stringify({ event: 'subscribe', feed: 'ticker', product_ids: this.options.productIds }));
+  }
+
+  // Heartbeats arrive every few seconds - silence means the connection is dead
+  private watchStale(socket: WebSocket): void {
+    if (this.staleTimer) clearInterval(this.staleTimer);
+    this.staleTimer = setInterval(() => {
+      if (this.socket === socket && this.getAge() > this.options.staleTimeoutMs) {
+        console.warn('Kraken WebSocket stale, reconnecting');
+        socket.terminate();
+      }
+    }, Math.min(5000, this.options.staleTimeoutMs));
+  }
+
+  private scheduleReconnect(): void {
+    if (this.status === 'stopped') return;
+    this.clearTimers();
+
+    const backoff = Math.min(
+      this.options.maxReconnectMs,
+      this.options.minReconnectMs * Math.pow(2, this.attempts)
+    );
+    const delay = backoff / 2 + Math.random() * backoff / 2;
+    this.attempts++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleMessage(raw: string): void {
+    let message: { feed?: string; event?: string; message?: string; product_id?: string };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.event === 'alert' || message.event === 'error') {
+      console.error('Kraken WebSocket alert:', message.message ?? raw);
+      return;
+    }
+
+    if (message.feed !== 'ticker' || !message.product_id) return;
+
+    const productId = message.product_id.toUpperCase();
+    const ticker = toTickerData(
+      { ...(message as KrakenWsTicker), product_id: productId },
+      this.tickers.get(productId)
+    );
+    this.tickers.set(productId, ticker);
+    this.emit('ticker', ticker);
+  }
+}
+
+// One feed per server process - kept on globalThis so dev hot reloads reuse it
+const globalFeed = globalThis as typeof globalThis & { krakenTickerFeed?: KrakenTickerFeed };
+
+/**
+ * Shared, lazily started feed for the watchlist perpetuals
+ */
+export function getTickerFeed(): KrakenTickerFeed {
+  if (!globalFeed.krakenTickerFeed) {
+    globalFeed.krakenTickerFeed = new KrakenTickerFeed();
+    globalFeed.krakenTickerFeed.setMaxListeners(0);
+  }
+  globalFeed.krakenTickerFeed.start();
+  return globalFeed.krakenTickerFeed;
+}
@@ -1,28 +1,58 @@
 // Kraken Futures API wrapper
 // All market data endpoints are FREE - no API key required
+// Requests go through the shared HTTP client (timeouts, retries, rate limits) and
+// failures throw ExchangeError subclasses
 
-const KRAKEN_FUTURES_BASE = 'https://futures.kraken.com/derivatives/api/v3';
-
-// Perpetual futures symbols (PF_ prefix)
-export const FUTURES_SYMBOLS: Record<string, string> = {
-  'BTC': 'PF_XBTUSD',
-  'ETH': 'PF_ETHUSD',
-  'SOL': 'PF_SOLUSD',
-  'XRP': 'PF_XRPUSD',
-  'LINK': 'PF_LINKUSD',
-  'LTC': 'PF_LTCUSD',
-  'DOGE': 'PF_DOGEUSD',
-  'ADA': 'PF_ADAUSD',
-  'AVAX': 'PF_AVAXUSD',
-  'MATIC': 'PF_MATICUSD',
+import { ExchangeApiError, HttpClient, getHttpClient } from './http-client';
+
+const KRAKEN_FUTURES_HOST = 'futures.kraken.com';
+const KRAKEN_FUTURES_BASE = `https://${KRAKEN_FUTURES_HOST}/derivatives/api/v3`;
+const KRAKEN_CHARTS_BASE = `https://${KRAKEN_FUTURES_HOST}/api/charts/v1`;
+
+// Kraken base codes that differ from the common asset symbol
+const KRAKEN_ASSET_CODES: Record<string, string> = {
+  'BTC': 'XBT',
 };
 
+/**
+ * Multi-collateral perpetual (PF_ prefix) for an asset, e.g. BTC -> PF_XBTUSD
+ * Which perpetuals exist is up to the instrument registry (instruments.ts)
+ */
+export function toKrakenSymbol(symbol: string): string {
+  const asset = symbol.toUpperCase();
+  return `PF_${KRAKEN_ASSET_CODES[asset] ?? asset}USD`;
+}
+
+/**
+ * Asset symbol for a USD perpetual, e.g. PF_XBTUSD -> BTC - null for anything else
+ */
+export function fromKrakenSymbol(krakenSymbol: string): string | null {
+  const match = /^PF_([A-Z0-9]+)USD$/.exec(krakenSymbol.toUpperCase());
+  if (!match) return null;
+  const code = match[1];
+  return Object.keys(KRAKEN_ASSET_CODES).find(asset => KRAKEN_ASSET_CODES[asset] === code) ?? code;
+}
+
 export interface FundingRate {
   timestamp: string;
   fundingRate: number;
   relativeFundingRate: number;
 }
 
+/**
+ * OHLC candle - timestamp is the candle open
+ */
+export interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type CandleResolution = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '12h' | '1d' | '1w';
+
 export interface TickerData {
   symbol: string;
   tag: string;
@@ -55,24 +85,23 @@ export interface KrakenFundingResponse {
   rates: FundingRate[];
 }
 
+// Charts API prices arrive as strings, times in milliseconds
+export interface KrakenCandlesResponse {
+  candles: { time: number; open: string; high: string; low: string; close: string; volume: string | number }[];
+  more_candles: boolean;
+}
+
 /**
  * Fetch all tickers - includes current funding rates
  * FREE - No API key required
  */
-export async function getTickers(): Promise<TickerData[]> {
-  const response = await fetch(`${KRAKEN_FUTURES_BASE}/tickers`, {
-    headers: { 'Accept': 'application/json' },
+export async function getTickers(client: HttpClient = getHttpClient()): Promise<TickerData[]> {
+  const data = await client.getJson<KrakenTickersResponse>(`${KRAKEN_FUTURES_BASE}/tickers`, {
     next: { revalidate: 30 }, // Cache for 30 seconds
   });
 
-  if (!response.ok) {
-    throw new Error(`Kraken API error: ${response.status} ${response.statusText}`);
-  }
-
-  const data: KrakenTickersResponse = await response.json();
-  
-  if (data.result !== 'success') {
-    throw new Error(`Kraken API returned error: ${data.result}`);
+  if (data.result !== 'success' || !Array.isArray(data.tickers)) {
+    throw new ExchangeApiError(KRAKEN_FUTURES_HOST, `Kraken API returned error: ${data.result}`);
   }
 
   // Filter to only perpetual futures (PF_ symbols)
@@ -83,44 +112,83 @@ export async function getTickers(): Promise<TickerData[]> {
  * Fetch historical funding rates for a symbol
  * FREE - No API key required
  */
-export async function getHistoricalFundingRates(symbol: string): Promise<FundingRate[]> {
-  const krakenSymbol = FUTURES_SYMBOLS[symbol.toUpperCase()];
-  if (!krakenSymbol) {
-    console.warn(`Unknown symbol: ${symbol}, skipping`);
-    return [];
-  }
+export async function getHistoricalFundingRates(
+  symbol: string,
+  client: HttpClient = getHttpClient()
+): Promise<FundingRate[]> {
+  const krakenSymbol = toKrakenSymbol(symbol);
 
-  const response = await fetch(
+  const data = await client.getJson<KrakenFundingResponse>(
     `${KRAKEN_FUTURES_BASE}/historicalfundingrates?symbol=${krakenSymbol}`,
-    {
-      headers: { 'Accept': 'application/json' },
-      next: { revalidate: 300 }, // Cache for 5 minutes
-    }
+    { next: { revalidate: 300 } } // Cache for 5 minutes
   );
 
-  if (!response.ok) {
-    console.error(`Failed to fetch funding rates for ${symbol}: ${response.status}`);
-    return [];
-  }
-
-  const data: KrakenFundingResponse = await response.json();
-  
   if (data.result !== 'success') {
-    console.error(`Kraken API error for ${symbol}: ${data.result}`);
-    return [];
+    throw new ExchangeApiError(KRAKEN_FUTURES_HOST, `Kraken API error for ${symbol}: ${data.result}`);
   }
 
   return data.rates || [];
 }
 
+/**
+ * Fetch trade price candles for a symbol, oldest first
+ * The charts API returns a limited number per call - moreCandles is set when
+ * there are newer candles after the last one returned
+ * FREE - No API key required
+ */
+export async function getCandles(
+  symbol: string,
+  resolution: CandleResolution = '1h',
+  from?: Date,
+  client: HttpClient = getHttpClient()
+): Promise<{ candles: Candle[]; moreCandles: boolean }> {
+  const krakenSymbol = toKrakenSymbol(symbol);
+  const query = from ? `?from=${Math.floor(from.getTime() / 1000)}` : '';
+
+  const data = await client.getJson<KrakenCandlesResponse>(
+    `${KRAKEN_CHARTS_BASE}/trade/${krakenSymbol}/${resolution}${query}`,
+    { cache: 'no-store' }
+  );
+
+  if (!data || !Array.isArray(data.candles)) {
+    throw new ExchangeApiError(KRAKEN_FUTURES_HOST, `Kraken charts API returned no candles for ${symbol}`);
+  }
+
+  return {
+    candles: data.candles.map(c => ({
+      timestamp: new Date(c.time).toISOString(),
+      open: parseFloat(c.open),
+      high: parseFloat(c.high),
+      low: parseFloat(c.low),
+      close: parseFloat(c.close),
+      volume: Number(c.volume),
+    })),
+    moreCandles: data.more_candles === true,
+  };
+}
+
 /**
  * Get ticker for a specific symbol
  */
 export function getTickerForSymbol(tickers: TickerData[], symbol: string): TickerData | undefined {
-  const krakenSymbol = FUTURES_SYMBOLS[symbol.toUpperCase()];
-  if (!krakenSymbol) return undefined;
-  
+  const krakenSymbol = toKrakenSymbol(symbol);
   return tickers.find(t => 
     t.symbol.toLowerCase() === krakenSymbol.toLowerCase()
   );
 }
+
+/**
+ * Ticker funding rates are absolute (USD per contract per period) - divide by
+ * the mark price to get the relative rate stored by the history endpoints
+ */
+export function getRelativeFundingRates(
+  ticker: Pick<TickerData, 'fundingRate' | 'markPrice'> & { fundingRatePrediction?: number }
+): { current: number; predicted: number | undefined } {
+  if (!(ticker.markPrice > 0)) return { current: 0, predicted: undefined };
+  return {
+    current: ticker.fundingRate / ticker.markPrice,
+    predicted: Number.isFinite(ticker.fundingRatePrediction)
+      ? (ticker.fundingRatePrediction as number) / ticker.markPrice
+      : undefined,
+  };
+}
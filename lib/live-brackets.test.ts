@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLiveBracket, loadLiveBrackets, updateLiveBrackets } from './live-brackets';
+
+async function useTempStore(t: { after: (fn: () => Promise<void>) => void }): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-brackets-'));
+  const previous = process.env.LIVE_BRACKETS_PATH;
+  process.env.LIVE_BRACKETS_PATH = path.join(dir, 'live-brackets.json');
+  t.after(async () => {
+    if (previous === undefined) delete process.env.LIVE_BRACKETS_PATH;
+    else process.env.LIVE_BRACKETS_PATH = previous;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+  return dir;
+}
+
+function bracketFor(orderId: string) {
+  return createLiveBracket(
+    { orderId, symbol: 'BTC', krakenSymbol: 'PF_XBTUSD', side: 'buy' },
+    { stopLossPrice: 95, takeProfitPrice: 110 }
+  );
+}
+
+test('overlapping updates keep every bracket', async t => {
+  const dir = await useTempStore(t);
+
+  // A slow sync that loaded the list first must not save over a bracket added meanwhile
+  const slowSync = updateLiveBrackets(async brackets => {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    for (const bracket of brackets) bracket.status = 'active';
+  });
+  const added = updateLiveBrackets(brackets => {
+    brackets.push(bracketFor('entry-1'));
+  });
+  await Promise.all([slowSync, added]);
+  await updateLiveBrackets(brackets => {
+    brackets.push(bracketFor('entry-2'));
+  });
+
+  const stored = await loadLiveBrackets();
+  assert.deepEqual(stored.map(b => b.entryOrderId), ['entry-1', 'entry-2']);
+  assert.deepEqual(await fs.readdir(dir), ['live-brackets.json']);
+});
+
+test('a failed update is dropped and does not block the queue', async t => {
+  await useTempStore(t);
+  await updateLiveBrackets(brackets => {
+    brackets.push(bracketFor('entry-1'));
+  });
+
+  await assert.rejects(updateLiveBrackets(brackets => {
+    brackets.length = 0;
+    throw new Error('open orders unavailable');
+  }), /open orders unavailable/);
+
+  const count = await updateLiveBrackets(brackets => brackets.length);
+  assert.equal(count, 1);
+});
@@ -0,0 +1,193 @@
+// Live bracket orders on Kraken Futures
+// Brackets are stored locally and reconciled against open orders and fills
+// using the same planBracketActions logic as the paper broker
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  KrakenCredentials,
+  KrakenOpenOrder,
+  KrakenFill,
+  sendOrder,
+  cancelOrder,
+  editOrderSize,
+  getOpenOrders,
+  getFills,
+} from './kraken-private';
+import { Bracket, BracketRequest, BracketOrderState, planBracketActions, legSide, legOrderParams, setLegOrderId } from './brackets';
+
+export interface BracketSyncError {
+  bracketId: string;
+  message: string;
+}
+
+/**
+ * Live bracket store location - override with LIVE_BRACKETS_PATH
+ */
+export function getLiveBracketsPath(): string {
+  return process.env.LIVE_BRACKETS_PATH || path.join(process.cwd(), '.data', 'live-brackets.json');
+}
+
+/**
+ * For reading only - change brackets through updateLiveBrackets
+ */
+export async function loadLiveBrackets(): Promise<Bracket[]> {
+  try {
+    const raw = await fs.readFile(getLiveBracketsPath(), 'utf8');
+    return JSON.parse(raw) as Bracket[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Written to a temp file and renamed, so a crash mid-write can't leave a torn store
+async function saveLiveBrackets(brackets: Bracket[]): Promise<void> {
+  const file = getLiveBracketsPath();
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(brackets, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+// Tail of the update queue - each update starts once the previous one has saved
+let bracketQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load, change and save the live brackets with no other update in between
+ * Same pattern as updateLedger - the cron-polled sync can't save an older list over
+ * a bracket that POST /api/execute has just added. Changes are dropped if update throws,
+ * so record anything already sent to Kraken before letting an error escape.
+ */
+export function updateLiveBrackets<T>(update: (brackets: Bracket[]) => Promise<T> | T): Promise<T> {
+  const run = bracketQueue.then(async () => {
+    const brackets = await loadLiveBrackets();
+    const result = await update(brackets);
+    await saveLiveBrackets(brackets);
+    return result;
+  });
+  bracketQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Record a bracket for a live entry order that has just been placed
+ */
+export function createLiveBracket(
+  entry: { orderId: string; symbol: string; krakenSymbol: string; side: 'buy' | 'sell' },
+  request: BracketRequest
+): Bracket {
+  const now = new Date().toISOString();
+  return {
+    bracketId: `bracket-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    mode: 'live',
+    symbol: entry.symbol,
+    krakenSymbol: entry.krakenSymbol,
+    side: entry.side,
+    entryOrderId: entry.orderId,
+    stopLossPrice: request.stopLossPrice,
+    takeProfitPrice: request.takeProfitPrice,
+    legSize: 0,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function observeState(
+  bracket: Bracket,
+  openOrders: KrakenOpenOrder[],
+  fills: KrakenFill[],
+  knownEntryFill: number
+): BracketOrderState {
+  const filled = (orderId?: string) => orderId
+    ? fills.filter(f => f.order_id === orderId).reduce((sum, f) => sum + f.size, 0)
+    : 0;
+  const isOpen = (orderId?: string) => Boolean(orderId && openOrders.some(o => o.order_id === orderId));
+
+  return {
+    // Fills only cover recent history - never let the entry fill go backwards
+    entryFilled: Math.max(filled(bracket.entryOrderId), knownEntryFill),
+    entryOpen: isOpen(bracket.entryOrderId),
+    stopLossFilled: filled(bracket.stopLossOrderId),
+    stopLossOpen: isOpen(bracket.stopLossOrderId),
+    takeProfitFilled: filled(bracket.takeProfitOrderId),
+    takeProfitOpen: isOpen(bracket.takeProfitOrderId),
+  };
+}
+
+/**
+ * Reconcile every open live bracket with the exchange
+ * entryFills lets the caller pass fills it already knows about (e.g. from sendorder)
+ * A failed action stops that bracket's sync and is returned (and kept in lastError) -
+ * each leg's order id is recorded as soon as it is placed, so the next sync carries on from there.
+ * Throws only when open orders or fills can't be fetched
+ */
+export async function syncLiveBrackets(
+  brackets: Bracket[],
+  credentials: KrakenCredentials,
+  entryFills: Record<string, number> = {}
+): Promise<BracketSyncError[]> {
+  const pending = brackets.filter(b => b.status === 'pending' || b.status === 'active');
+  const errors: BracketSyncError[] = [];
+  if (pending.length === 0) return errors;
+
+  const [openOrders, fills] = await Promise.all([
+    getOpenOrders(credentials),
+    getFills(credentials),
+  ]);
+
+  for (const bracket of pending) {
+    const knownEntryFill = Math.max(entryFills[bracket.entryOrderId] ?? 0, bracket.legSize);
+    const state = observeState(bracket, openOrders, fills, knownEntryFill);
+
+    try {
+      for (const action of planBracketActions(bracket, state)) {
+        switch (action.type) {
+          case 'placeLeg': {
+            const placed = await sendOrder({
+              symbol: bracket.krakenSymbol,
+              side: legSide(bracket),
+              size: action.size,
+              reduceOnly: true,
+              ...legOrderParams(bracket, action.leg),
+            }, credentials);
+            setLegOrderId(bracket, action.leg, placed.orderId);
+            bracket.legSize = action.size;
+            break;
+          }
+          case 'resizeLegs':
+            if (bracket.stopLossOrderId && state.stopLossOpen) {
+              await editOrderSize(bracket.stopLossOrderId, action.size, credentials);
+            }
+            if (bracket.takeProfitOrderId && state.takeProfitOpen) {
+              await editOrderSize(bracket.takeProfitOrderId, action.size, credentials);
+            }
+            bracket.legSize = action.size;
+            break;
+          case 'cancel': {
+            const orderId = action.order === 'entry' ? bracket.entryOrderId
+              : action.order === 'stopLoss' ? bracket.stopLossOrderId
+              : bracket.takeProfitOrderId;
+            if (orderId) await cancelOrder(orderId, credentials);
+            break;
+          }
+          case 'setStatus':
+            bracket.status = action.status;
+            bracket.closedBy = action.closedBy;
+            break;
+        }
+        bracket.updatedAt = new Date().toISOString();
+      }
+      delete bracket.lastError;
+    } catch (error) {
+      console.error(`Bracket ${bracket.bracketId} sync failed:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      bracket.lastError = message;
+      bracket.updatedAt = new Date().toISOString();
+      errors.push({ bracketId: bracket.bracketId, message });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,100 @@
+// Dashboard signals - shared by /api/signals (REST) and /api/stream (SSE)
+// Kraken's current and predicted funding rates z-scored against stored Binance funding history,
+// with open interest / volume / premium confirmations from the stored Kraken market snapshots
+// and the trend filter from stored Kraken candles
+// The same z-score drives the paper exit rules (loadExitObservation)
+
+import { Candle, FundingRate, getRelativeFundingRates } from './kraken';
+import { CalibrationTable } from './calibration';
+import { evaluateSignal, MarketPoint, Signal, DEFAULT_STRATEGY_CONFIG, requiredHistoryPeriods } from './strategy';
+import { readCandleWindow, readHistory, readMarketWindow } from './history-store';
+import { getFundingIntervalHours } from './funding-interval';
+import { ExitObservation } from './exits';
+
+export interface LiveTicker {
+  fundingRate: number;
+  fundingRatePrediction?: number;
+  markPrice: number;
+  last: number;
+  open24h: number;
+  openInterest?: number;
+  vol24h?: number;
+  indexPrice?: number;
+  lastTime?: string;
+  suspended?: boolean;
+}
+
+/**
+ * Stored Binance funding history for the lookback and multi-window analysis
+ */
+export async function loadSignalHistory(symbol: string): Promise<FundingRate[]> {
+  return readHistory('binance-funding', symbol, { limit: requiredHistoryPeriods(DEFAULT_STRATEGY_CONFIG) });
+}
+
+/**
+ * Stored market snapshots for the open interest and volume windows
+ */
+export async function loadMarketHistory(symbol: string): Promise<MarketPoint[]> {
+  return readMarketWindow(symbol);
+}
+
+/**
+ * Stored candles for the trend filter and ATR stops
+ */
+export async function loadCandleHistory(symbol: string): Promise<Candle[]> {
+  return readCandleWindow(symbol);
+}
+
+/**
+ * Signal for one asset from a Kraken ticker (REST or WebSocket)
+ * Ticker rates are absolute, so both are converted to relative rates first.
+ * Kraken's hourly rates and the Binance history are both normalized per hour by the strategy -
+ * the history interval is inferred from its timestamps, since Binance is not 8h on every symbol.
+ * The ticker's open interest, volume and prices are appended to the market history as the latest point.
+ * The strategy falls back to absolute thresholds when history is short
+ */
+export function evaluateLiveSignal(
+  symbol: string,
+  ticker: LiveTicker,
+  history: FundingRate[],
+  calibration?: CalibrationTable | null,
+  market: MarketPoint[] = [],
+  candles: Candle[] = []
+): Signal {
+  const rates = getRelativeFundingRates(ticker);
+  const current: MarketPoint[] = ticker.openInterest !== undefined && ticker.vol24h !== undefined
+    ? [{
+      timestamp: new Date().toISOString(),
+      openInterest: ticker.openInterest,
+      vol24h: ticker.vol24h,
+      markPrice: ticker.markPrice,
+      indexPrice: ticker.indexPrice,
+    }]
+    : [];
+
+  return evaluateSignal({
+    symbol,
+    history,
+    currentRate: rates.current,
+    predictedRate: rates.predicted,
+    market: [...market, ...current],
+    currentIntervalHours: getFundingIntervalHours('kraken', symbol),
+    price: ticker.last,
+    open24h: ticker.open24h,
+    ticker: { lastTime: ticker.lastTime, suspended: ticker.suspended },
+    candles,
+  }, undefined, calibration);
+}
+
+/**
+ * Exit rule observation for an open position from stored history - no exchange calls
+ * The z-score is null when history is too short and the signal fell back to thresholds
+ */
+export async function loadExitObservation(symbol: string, ticker: LiveTicker): Promise<ExitObservation> {
+  const signal = evaluateLiveSignal(symbol, ticker, await loadSignalHistory(symbol));
+  return {
+    timestamp: new Date().toISOString(),
+    price: ticker.markPrice,
+    zScore: signal.signalSource === 'zscore' ? signal.zScore : null,
+  };
+}
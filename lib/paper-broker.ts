@@ -0,0 +1,767 @@
+// Paper trading broker
+// Simulated orders, fills and positions persisted to a local JSON ledger
+// Positions are valued at TickerData.markPrice from getTickers()
+// Funding is accrued per funding period from the local funding history store
+// Reducing fills are tagged with an exit reason - the exit rules (exits.ts) run in managePaperExits
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FundingRate, TickerData, getTickerForSymbol } from './kraken';
+import { OrderSide, OrderType } from './kraken-private';
+import { Bracket, BracketRequest, BracketOrderState, planBracketActions, legSide, legOrderParams, setLegOrderId } from './brackets';
+import { readHistory } from './history-store';
+import { syncKrakenFunding } from './history-sync';
+import { attributeExits, DEFAULT_EXIT_CONFIG, ExitAttribution, ExitConfig, ExitObservation, ExitReason, ExitState, planExit } from './exits';
+
+export type PaperOrderStatus = 'open' | 'filled' | 'cancelled';
+export type PositionSide = 'long' | 'short';
+
+// Signal the order was placed on - recorded so closed trades can feed calibration
+export interface PaperSignalContext {
+  zScore: number;
+  confirmations: number;
+  riskAmount?: number;
+}
+
+export interface PaperOrder {
+  orderId: string;
+  symbol: string;        // Our symbol, e.g. BTC
+  krakenSymbol: string;  // e.g. PF_XBTUSD
+  side: OrderSide;
+  size: number;
+  leverage: number;
+  orderType: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  reduceOnly: boolean;
+  signal?: PaperSignalContext;
+  exitReason?: ExitReason;    // Tagged on reducing fills - MANUAL when unset
+  status: PaperOrderStatus;
+  filledSize: number;
+  averagePrice: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaperFill {
+  fillId: string;
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  size: number;
+  price: number;
+  realizedPnl: number;
+  exitReason?: ExitReason;    // Set when the fill reduced a position
+  timestamp: string;
+}
+
+// One reducing fill of a position
+export interface PaperExit {
+  reason: ExitReason;
+  size: number;
+  price: number;
+  realizedPnl: number;
+  timestamp: string;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  krakenSymbol: string;
+  side: PositionSide;
+  size: number;               // Always positive, in base units
+  averageEntryPrice: number;
+  leverage: number;
+  markPrice: number;
+  notional: number;
+  margin: number;
+  unrealizedPnl: number;
+  realizedPnl: number;        // Price PnL realized while this position has been open
+  fundingPnl: number;         // Funding received (+) or paid (-) while open
+  lastFundingTime: string;    // Funding periods up to this time have been accrued
+  entrySignal?: PaperSignalContext;
+  exitState: Pick<ExitState, 'initialSize' | 'bestPrice' | 'scaledOut'>;
+  exits: PaperExit[];         // Reductions so far
+  openedAt: string;
+  updatedAt: string;
+}
+
+export interface PaperClosedTrade {
+  symbol: string;
+  side: PositionSide;
+  averageEntryPrice: number;
+  exitPrice: number;
+  realizedPnl: number;
+  fundingPnl: number;
+  entrySignal?: PaperSignalContext;
+  exitReason?: ExitReason;    // Of the closing fill - missing on trades closed before reasons were recorded
+  exits?: PaperExit[];
+  openedAt: string;
+  closedAt: string;
+}
+
+export interface PaperFundingPayment {
+  symbol: string;
+  side: PositionSide;
+  size: number;
+  fundingRate: number;
+  relativeFundingRate: number;
+  amount: number;             // Positive = received, negative = paid
+  fundingTime: string;
+}
+
+export interface PaperLedger {
+  version: 1;
+  startingCapital: number;
+  realizedPnl: number;        // Lifetime realized price PnL across all positions
+  fundingPnl: number;         // Lifetime funding PnL across all positions
+  orders: PaperOrder[];
+  fills: PaperFill[];
+  fundingPayments: PaperFundingPayment[];
+  closedTrades: PaperClosedTrade[];
+  brackets: Bracket[];
+  positions: Record<string, PaperPosition>;
+  updatedAt: string;
+}
+
+export interface LedgerSummary {
+  startingCapital: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  pricePnl: number;           // Realized + unrealized price PnL
+  fundingPnl: number;
+  totalPnl: number;
+  grossExposure: number;
+  netExposure: number;
+  leverage: number;
+  openPositions: number;
+  openOrders: number;
+}
+
+export interface PaperOrderRequest {
+  symbol: string;
+  krakenSymbol: string;
+  side: OrderSide;
+  size: number;
+  leverage: number;
+  orderType: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  reduceOnly?: boolean;
+  signal?: PaperSignalContext;
+  exitReason?: ExitReason;
+}
+
+const DEFAULT_STARTING_CAPITAL = 5000;
+
+/**
+ * Ledger file location - override with PAPER_LEDGER_PATH
+ */
+export function getLedgerPath(): string {
+  return process.env.PAPER_LEDGER_PATH || path.join(process.cwd(), '.data', 'paper-ledger.json');
+}
+
+function createEmptyLedger(): PaperLedger {
+  const startingCapital = Number(process.env.PAPER_STARTING_CAPITAL) || DEFAULT_STARTING_CAPITAL;
+  return {
+    version: 1,
+    startingCapital,
+    realizedPnl: 0,
+    fundingPnl: 0,
+    orders: [],
+    fills: [],
+    fundingPayments: [],
+    closedTrades: [],
+    brackets: [],
+    positions: {},
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load the ledger from disk, creating an empty one on first use
+ * For reading only - changes must go through updateLedger
+ */
+export async function loadLedger(): Promise<PaperLedger> {
+  try {
+    const raw = await fs.readFile(getLedgerPath(), 'utf8');
+    const ledger = JSON.parse(raw) as PaperLedger;
+    // Ledgers written before funding accrual existed
+    ledger.fundingPnl = ledger.fundingPnl ?? 0;
+    ledger.fundingPayments = ledger.fundingPayments ?? [];
+    ledger.closedTrades = ledger.closedTrades ?? [];
+    ledger.brackets = ledger.brackets ?? [];
+    for (const position of Object.values(ledger.positions)) {
+      position.fundingPnl = position.fundingPnl ?? 0;
+      position.lastFundingTime = position.lastFundingTime ?? position.openedAt;
+      // Positions opened before the exit rules existed
+      position.exitState = position.exitState ?? {
+        initialSize: position.size,
+        bestPrice: position.averageEntryPrice,
+        scaledOut: false,
+      };
+      position.exits = position.exits ?? [];
+    }
+    return ledger;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createEmptyLedger();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Persist the ledger to disk - written to a temp file and renamed over the old one,
+ * so a crash mid-write never leaves a truncated ledger
+ */
+async function saveLedger(ledger: PaperLedger): Promise<void> {
+  const file = getLedgerPath();
+  const temp = `${file}.${process.pid}.tmp`;
+  ledger.updatedAt = new Date().toISOString();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(temp, JSON.stringify(ledger, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+// Tail of the update queue - each update starts once the previous one has saved
+let ledgerQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load, change and save the ledger with no other update in between
+ * Every ledger change goes through here, so overlapping requests can't overwrite each other.
+ * The changes are saved once update resolves and dropped if it throws.
+ * The lock is per process - run one server process per ledger file
+ */
+export function updateLedger<T>(update: (ledger: PaperLedger) => Promise<T> | T): Promise<T> {
+  const run = ledgerQueue.then(async () => {
+    const ledger = await loadLedger();
+    const result = await update(ledger);
+    await saveLedger(ledger);
+    return result;
+  });
+  ledgerQueue = run.catch(() => undefined);
+  return run;
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Apply a fill to the position for its symbol
+ * Handles opening, adding, reducing, closing and flipping
+ */
+function applyFill(ledger: PaperLedger, order: PaperOrder, size: number, price: number): PaperFill {
+  const now = new Date().toISOString();
+  const existing = ledger.positions[order.symbol];
+  const fillDirection = order.side === 'buy' ? 1 : -1;
+  let realizedPnl = 0;
+  let exitReason: ExitReason | undefined;
+
+  if (!existing) {
+    ledger.positions[order.symbol] = {
+      symbol: order.symbol,
+      krakenSymbol: order.krakenSymbol,
+      side: fillDirection > 0 ? 'long' : 'short',
+      size,
+      averageEntryPrice: price,
+      leverage: order.leverage,
+      markPrice: price,
+      notional: size * price,
+      margin: (size * price) / order.leverage,
+      unrealizedPnl: 0,
+      realizedPnl: 0,
+      fundingPnl: 0,
+      lastFundingTime: now,
+      entrySignal: order.signal,
+      exitState: { initialSize: size, bestPrice: price, scaledOut: false },
+      exits: [],
+      openedAt: now,
+      updatedAt: now,
+    };
+  } else {
+    const positionDirection = existing.side === 'long' ? 1 : -1;
+
+    if (positionDirection === fillDirection) {
+      // Adding to the position - blend the entry price
+      const newSize = existing.size + size;
+      existing.averageEntryPrice = (existing.size * existing.averageEntryPrice + size * price) / newSize;
+      existing.size = newSize;
+      existing.leverage = order.leverage;
+      existing.exitState.initialSize = newSize;
+    } else {
+      // Reducing, closing or flipping
+      const closingSize = Math.min(size, existing.size);
+      realizedPnl = closingSize * (price - existing.averageEntryPrice) * positionDirection;
+      existing.realizedPnl += realizedPnl;
+      ledger.realizedPnl += realizedPnl;
+      exitReason = order.exitReason ?? 'MANUAL';
+      existing.exits.push({ reason: exitReason, size: closingSize, price, realizedPnl, timestamp: now });
+
+      const remaining = size - closingSize;
+      if (closingSize < existing.size) {
+        existing.size -= closingSize;
+      } else {
+        ledger.closedTrades.push({
+          symbol: existing.symbol,
+          side: existing.side,
+          averageEntryPrice: existing.averageEntryPrice,
+          exitPrice: price,
+          realizedPnl: existing.realizedPnl,
+          fundingPnl: existing.fundingPnl,
+          entrySignal: existing.entrySignal,
+          exitReason,
+          exits: existing.exits,
+          openedAt: existing.openedAt,
+          closedAt: now,
+        });
+
+        if (remaining > 0) {
+          existing.side = fillDirection > 0 ? 'long' : 'short';
+          existing.size = remaining;
+          existing.averageEntryPrice = price;
+          existing.leverage = order.leverage;
+          existing.realizedPnl = 0;
+          existing.fundingPnl = 0;
+          existing.lastFundingTime = now;
+          existing.entrySignal = order.signal;
+          existing.exitState = { initialSize: remaining, bestPrice: price, scaledOut: false };
+          existing.exits = [];
+          existing.openedAt = now;
+        } else {
+          delete ledger.positions[order.symbol];
+        }
+      }
+    }
+
+    const position = ledger.positions[order.symbol];
+    if (position) {
+      revaluePosition(position, price);
+      position.updatedAt = now;
+    }
+  }
+
+  // Update the order
+  const previousNotional = order.filledSize * (order.averagePrice || 0);
+  order.filledSize += size;
+  order.averagePrice = (previousNotional + size * price) / order.filledSize;
+  order.status = order.filledSize >= order.size ? 'filled' : 'open';
+  order.updatedAt = now;
+
+  const fill: PaperFill = {
+    fillId: createId('fill'),
+    orderId: order.orderId,
+    symbol: order.symbol,
+    side: order.side,
+    size,
+    price,
+    realizedPnl,
+    exitReason,
+    timestamp: now,
+  };
+  ledger.fills.push(fill);
+  return fill;
+}
+
+function revaluePosition(position: PaperPosition, markPrice: number): void {
+  const direction = position.side === 'long' ? 1 : -1;
+  position.markPrice = markPrice;
+  position.notional = position.size * markPrice;
+  position.margin = position.notional / position.leverage;
+  position.unrealizedPnl = position.size * (markPrice - position.averageEntryPrice) * direction;
+}
+
+/**
+ * Size that a reduce-only order may fill without increasing exposure
+ */
+function reducibleSize(ledger: PaperLedger, order: PaperOrder): number {
+  const position = ledger.positions[order.symbol];
+  if (!position) return 0;
+  const reduces = (position.side === 'long' && order.side === 'sell') ||
+    (position.side === 'short' && order.side === 'buy');
+  return reduces ? Math.min(order.size - order.filledSize, position.size) : 0;
+}
+
+/**
+ * Check whether a resting order should execute at the given mark price
+ */
+function isTriggered(order: PaperOrder, markPrice: number): boolean {
+  switch (order.orderType) {
+    case 'mkt':
+      return true;
+    case 'lmt':
+      return order.side === 'buy'
+        ? markPrice <= (order.limitPrice as number)
+        : markPrice >= (order.limitPrice as number);
+    case 'stp':
+      return order.side === 'buy'
+        ? markPrice >= (order.stopPrice as number)
+        : markPrice <= (order.stopPrice as number);
+  }
+}
+
+function executionPrice(order: PaperOrder, markPrice: number): number {
+  // Marketable limits fill at the better of mark and limit
+  if (order.orderType === 'lmt') {
+    return order.side === 'buy'
+      ? Math.min(markPrice, order.limitPrice as number)
+      : Math.max(markPrice, order.limitPrice as number);
+  }
+  return markPrice;
+}
+
+/**
+ * Try to fill an open order at the current mark price
+ * Returns the fill, or null if the order stays open
+ */
+function tryFill(ledger: PaperLedger, order: PaperOrder, markPrice: number): PaperFill | null {
+  if (order.status !== 'open' || !isTriggered(order, markPrice)) return null;
+
+  const size = order.reduceOnly ? reducibleSize(ledger, order) : order.size - order.filledSize;
+  if (size <= 0) {
+    // Nothing left to reduce - reduce-only orders are cancelled, like on the exchange
+    order.status = 'cancelled';
+    order.updatedAt = new Date().toISOString();
+    return null;
+  }
+
+  const fill = applyFill(ledger, order, size, executionPrice(order, markPrice));
+  if (order.reduceOnly && order.status === 'open') {
+    // Position is flat, the rest of a reduce-only order can never fill
+    order.status = 'cancelled';
+  }
+  return fill;
+}
+
+function createPaperOrder(ledger: PaperLedger, request: PaperOrderRequest): PaperOrder {
+  const now = new Date().toISOString();
+  const order: PaperOrder = {
+    orderId: createId('paper'),
+    symbol: request.symbol,
+    krakenSymbol: request.krakenSymbol,
+    side: request.side,
+    size: request.size,
+    leverage: request.leverage,
+    orderType: request.orderType,
+    limitPrice: request.limitPrice,
+    stopPrice: request.stopPrice,
+    reduceOnly: request.reduceOnly ?? false,
+    signal: request.signal,
+    exitReason: request.exitReason,
+    status: 'open',
+    filledSize: 0,
+    averagePrice: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  ledger.orders.push(order);
+  return order;
+}
+
+/**
+ * Submit a paper order - market orders fill immediately at the mark price,
+ * limit and stop orders rest until markToMarket triggers them
+ * With a bracket, reduce-only SL/TP legs are placed once the entry fills
+ */
+export function placePaperOrder(
+  ledger: PaperLedger,
+  request: PaperOrderRequest,
+  markPrice: number,
+  bracketRequest?: BracketRequest
+): { order: PaperOrder; fill: PaperFill | null; bracket: Bracket | null } {
+  const order = createPaperOrder(ledger, request);
+  let bracket: Bracket | null = null;
+
+  if (bracketRequest) {
+    bracket = {
+      bracketId: createId('bracket'),
+      mode: 'paper',
+      symbol: order.symbol,
+      krakenSymbol: order.krakenSymbol,
+      side: order.side,
+      entryOrderId: order.orderId,
+      stopLossPrice: bracketRequest.stopLossPrice,
+      takeProfitPrice: bracketRequest.takeProfitPrice,
+      legSize: 0,
+      status: 'pending',
+      createdAt: order.createdAt,
+      updatedAt: order.createdAt,
+    };
+    ledger.brackets.push(bracket);
+  }
+
+  const fill = tryFill(ledger, order, markPrice);
+  syncPaperBrackets(ledger);
+  return { order, fill, bracket };
+}
+
+function findOrder(ledger: PaperLedger, orderId?: string): PaperOrder | undefined {
+  return orderId ? ledger.orders.find(o => o.orderId === orderId) : undefined;
+}
+
+/**
+ * Place, resize or cancel bracket legs to match the current order state
+ */
+export function syncPaperBrackets(ledger: PaperLedger): void {
+  for (const bracket of ledger.brackets) {
+    if (bracket.status === 'closed' || bracket.status === 'cancelled') continue;
+
+    const entry = findOrder(ledger, bracket.entryOrderId);
+    const stopLoss = findOrder(ledger, bracket.stopLossOrderId);
+    const takeProfit = findOrder(ledger, bracket.takeProfitOrderId);
+    if (!entry) continue;
+
+    const state: BracketOrderState = {
+      entryFilled: entry.filledSize,
+      entryOpen: entry.status === 'open',
+      stopLossFilled: stopLoss?.filledSize ?? 0,
+      stopLossOpen: stopLoss?.status === 'open',
+      takeProfitFilled: takeProfit?.filledSize ?? 0,
+      takeProfitOpen: takeProfit?.status === 'open',
+    };
+
+    for (const action of planBracketActions(bracket, state)) {
+      switch (action.type) {
+        case 'placeLeg': {
+          const order = createPaperOrder(ledger, {
+            symbol: bracket.symbol,
+            krakenSymbol: bracket.krakenSymbol,
+            side: legSide(bracket),
+            size: action.size,
+            leverage: entry.leverage,
+            reduceOnly: true,
+            exitReason: action.leg === 'stopLoss' ? 'STOP_LOSS' : 'TAKE_PROFIT',
+            ...legOrderParams(bracket, action.leg),
+          });
+          setLegOrderId(bracket, action.leg, order.orderId);
+          bracket.legSize = action.size;
+          break;
+        }
+        case 'resizeLegs':
+          for (const leg of [stopLoss, takeProfit]) {
+            if (leg && leg.status === 'open') {
+              leg.size = action.size;
+              leg.updatedAt = new Date().toISOString();
+            }
+          }
+          bracket.legSize = action.size;
+          break;
+        case 'cancel': {
+          const target = action.order === 'entry' ? entry
+            : action.order === 'stopLoss' ? stopLoss
+            : takeProfit;
+          if (target) cancelPaperOrder(ledger, target.orderId);
+          break;
+        }
+        case 'setStatus':
+          bracket.status = action.status;
+          bracket.closedBy = action.closedBy;
+          break;
+      }
+      bracket.updatedAt = new Date().toISOString();
+    }
+  }
+}
+
+/**
+ * Cancel an open paper order
+ */
+export function cancelPaperOrder(ledger: PaperLedger, orderId: string): PaperOrder | null {
+  const order = ledger.orders.find(o => o.orderId === orderId);
+  if (!order || order.status !== 'open') return null;
+  order.status = 'cancelled';
+  order.updatedAt = new Date().toISOString();
+  return order;
+}
+
+/**
+ * Revalue positions at the latest mark prices and trigger resting orders
+ */
+export function markToMarket(ledger: PaperLedger, tickers: TickerData[]): PaperFill[] {
+  const fills: PaperFill[] = [];
+
+  for (const order of ledger.orders) {
+    if (order.status !== 'open') continue;
+    const ticker = getTickerForSymbol(tickers, order.symbol);
+    if (!ticker || !ticker.markPrice) continue;
+    const fill = tryFill(ledger, order, ticker.markPrice);
+    if (fill) fills.push(fill);
+  }
+
+  // Attach legs to newly filled entries and cancel the sibling of any filled leg
+  syncPaperBrackets(ledger);
+
+  for (const position of Object.values(ledger.positions)) {
+    const ticker = getTickerForSymbol(tickers, position.symbol);
+    if (!ticker || !ticker.markPrice) continue;
+    revaluePosition(position, ticker.markPrice);
+    position.updatedAt = new Date().toISOString();
+  }
+
+  return fills;
+}
+
+/**
+ * Apply the exit rules to funding fades with an observation - call after markToMarket
+ * Only positions opened with an entrySignal on the opposite side of its z are managed, and the
+ * funding rules are measured from that entry z. Anything else is left to its bracket.
+ * Each exit is a reduce-only market order tagged with its reason, filled at the decision price
+ * A full exit cancels the position's remaining reduce-only orders, which cancels its bracket
+ */
+export function managePaperExits(
+  ledger: PaperLedger,
+  observations: Record<string, ExitObservation>,
+  config: ExitConfig = DEFAULT_EXIT_CONFIG
+): PaperFill[] {
+  const fills: PaperFill[] = [];
+
+  for (const position of Object.values(ledger.positions)) {
+    const observation = observations[position.symbol];
+    const entryZScore = position.entrySignal?.zScore;
+    if (!observation || !entryZScore) continue;
+
+    // Not a fade - a long on positive funding or a short on negative
+    const direction = position.side === 'long' ? 1 : -1;
+    if (Math.sign(entryZScore) !== -direction) continue;
+
+    const { decision, bestPrice } = planExit({
+      side: position.side,
+      entryPrice: position.averageEntryPrice,
+      entryTime: position.openedAt,
+      size: position.size,
+      ...position.exitState,
+      entryZScore,
+    }, observation, config);
+    position.exitState.bestPrice = bestPrice;
+    if (!decision) continue;
+
+    if (decision.reason === 'SCALE_OUT') position.exitState.scaledOut = true;
+    const order = createPaperOrder(ledger, {
+      symbol: position.symbol,
+      krakenSymbol: position.krakenSymbol,
+      side: position.side === 'long' ? 'sell' : 'buy',
+      size: decision.size,
+      leverage: position.leverage,
+      orderType: 'mkt',
+      reduceOnly: true,
+      exitReason: decision.reason,
+    });
+    const fill = tryFill(ledger, order, decision.price);
+    if (fill) fills.push(fill);
+
+    if (!ledger.positions[position.symbol]) {
+      for (const other of ledger.orders) {
+        if (other.symbol === position.symbol && other.reduceOnly && other.status === 'open') {
+          cancelPaperOrder(ledger, other.orderId);
+        }
+      }
+    }
+  }
+
+  syncPaperBrackets(ledger);
+  return fills;
+}
+
+/**
+ * Realized price PnL per exit reason, across closed trades and open positions' reductions
+ */
+export function summarizeExits(ledger: PaperLedger): Partial<Record<ExitReason, ExitAttribution>> {
+  const exits = [
+    ...ledger.closedTrades.flatMap(trade => trade.exits ?? []),
+    ...Object.values(ledger.positions).flatMap(position => position.exits),
+  ];
+  return attributeExits(exits.map(exit => ({ reason: exit.reason, size: exit.size, pnl: exit.realizedPnl })));
+}
+
+/**
+ * Accrue funding for one position from a funding rate history
+ * Longs pay positive funding and shorts receive it (and vice versa)
+ * fundingRate is the absolute rate per unit of the base asset per period
+ */
+export function accrueFunding(
+  ledger: PaperLedger,
+  symbol: string,
+  fundingRates: FundingRate[],
+  now: Date = new Date()
+): PaperFundingPayment[] {
+  const position = ledger.positions[symbol];
+  if (!position) return [];
+
+  const since = new Date(position.lastFundingTime).getTime();
+  const until = now.getTime();
+  const direction = position.side === 'long' ? 1 : -1;
+  const payments: PaperFundingPayment[] = [];
+
+  const periods = fundingRates
+    .filter(r => {
+      const time = new Date(r.timestamp).getTime();
+      return time > since && time <= until;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  for (const period of periods) {
+    const amount = -direction * position.size * period.fundingRate;
+    const payment: PaperFundingPayment = {
+      symbol,
+      side: position.side,
+      size: position.size,
+      fundingRate: period.fundingRate,
+      relativeFundingRate: period.relativeFundingRate,
+      amount,
+      fundingTime: period.timestamp,
+    };
+    position.fundingPnl += amount;
+    ledger.fundingPnl += amount;
+    ledger.fundingPayments.push(payment);
+    payments.push(payment);
+  }
+
+  if (periods.length > 0) {
+    position.lastFundingTime = periods[periods.length - 1].timestamp;
+    position.updatedAt = now.toISOString();
+  }
+
+  return payments;
+}
+
+/**
+ * Sync funding history for every open position and accrue any new periods
+ * Call before fills so each period is charged on the size held at the time
+ */
+export async function accrueLedgerFunding(ledger: PaperLedger): Promise<PaperFundingPayment[]> {
+  const payments: PaperFundingPayment[] = [];
+  for (const [symbol, position] of Object.entries(ledger.positions)) {
+    await syncKrakenFunding(symbol);
+    const rates = await readHistory('kraken-funding', symbol, { since: position.lastFundingTime });
+    payments.push(...accrueFunding(ledger, symbol, rates));
+  }
+  return payments;
+}
+
+/**
+ * Account level totals for the ledger
+ */
+export function summarizeLedger(ledger: PaperLedger): LedgerSummary {
+  const positions = Object.values(ledger.positions);
+  const unrealizedPnl = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
+  const grossExposure = positions.reduce((sum, p) => sum + p.notional, 0);
+  const netExposure = positions.reduce((sum, p) => sum + (p.side === 'long' ? p.notional : -p.notional), 0);
+  const pricePnl = ledger.realizedPnl + unrealizedPnl;
+  const equity = ledger.startingCapital + pricePnl + ledger.fundingPnl;
+
+  return {
+    startingCapital: ledger.startingCapital,
+    equity,
+    realizedPnl: ledger.realizedPnl,
+    unrealizedPnl,
+    pricePnl,
+    fundingPnl: ledger.fundingPnl,
+    totalPnl: pricePnl + ledger.fundingPnl,
+    grossExposure,
+    netExposure,
+    leverage: equity > 0 ? grossExposure / equity : 0,
+    openPositions: positions.length,
+    openOrders: ledger.orders.filter(o => o.status === 'open').length,
+  };
+}
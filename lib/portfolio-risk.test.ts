@@ -0,0 +1,140 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PORTFOLIO_LIMITS, ExposureEntry, applyPortfolioRisk, checkPortfolioRisk } from './portfolio-risk';
+
+const MEDIUM = PORTFOLIO_LIMITS.MEDIUM;
+
+function book(exposures: ExposureEntry[], equity = 10000) {
+  return { equity, exposures };
+}
+
+test('approves an order that fits every limit', () => {
+  const result = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 2000 }, book([]), MEDIUM);
+  assert.equal(result.approved, true);
+  assert.equal(result.scaled, false);
+  assert.equal(result.approvedNotional, 2000);
+});
+
+test('scales down to the per-asset limit', () => {
+  const result = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 5000 }, book([]), MEDIUM);
+  assert.equal(result.approved, true);
+  assert.equal(result.scaled, true);
+  assert.equal(result.bindingLimit, 'assetExposureLimit');
+  assert.equal(result.approvedNotional, 4000);
+  assert.equal(result.scale, 0.8);
+});
+
+test('scales down to the gross limit', () => {
+  const exposures = [{ symbol: 'ETH', notional: 3000 }, { symbol: 'XRP', notional: -6000 }];
+  const result = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 4000 }, book(exposures), MEDIUM);
+  assert.equal(result.bindingLimit, 'grossExposureLimit');
+  assert.equal(result.approvedNotional, 3000);
+});
+
+test('scales down to the net limit', () => {
+  const exposures = [{ symbol: 'XRP', notional: 3000 }, { symbol: 'LTC', notional: 3000 }];
+  const result = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 4000 }, book(exposures), MEDIUM);
+  assert.equal(result.bindingLimit, 'netExposureLimit');
+  assert.equal(result.approvedNotional, 2000);
+});
+
+test('scales down to the correlated group limit', () => {
+  const exposures = [
+    { symbol: 'ETH', notional: 4500 },
+    { symbol: 'SOL', notional: 4500 },
+    { symbol: 'XRP', notional: -3000 },
+  ];
+  const result = checkPortfolioRisk(
+    { symbol: 'BTC', side: 'buy', notional: 2000 },
+    book(exposures),
+    PORTFOLIO_LIMITS.HIGH
+  );
+  assert.equal(result.bindingLimit, 'correlatedExposureLimit');
+  assert.equal(result.rejection, undefined);
+  assert.equal(result.approvedNotional, 1000);
+  assert.equal(result.scale, 0.5);
+});
+
+test('only limits the part of a flip that opens the new side', () => {
+  const exposures = [{ symbol: 'BTC', notional: -3000 }];
+
+  const fits = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 6000 }, book(exposures), MEDIUM);
+  assert.equal(fits.approved, true);
+  assert.equal(fits.scaled, false);
+
+  // 3000 closes the short, the remaining 4000 is the per-asset limit
+  const scaled = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 8000 }, book(exposures), MEDIUM);
+  assert.equal(scaled.bindingLimit, 'assetExposureLimit');
+  assert.equal(scaled.approvedNotional, 7000);
+});
+
+test('always allows reducing orders, even on a book over its limits', () => {
+  const exposures = [{ symbol: 'BTC', notional: 20000 }];
+  const closing = checkPortfolioRisk({ symbol: 'BTC', side: 'sell', notional: 5000 }, book(exposures), MEDIUM);
+  assert.equal(closing.approved, true);
+  assert.equal(closing.scaled, false);
+
+  const reduceOnly = checkPortfolioRisk(
+    { symbol: 'ETH', side: 'sell', notional: 50000, reduceOnly: true },
+    book(exposures),
+    MEDIUM
+  );
+  assert.equal(reduceOnly.approved, true);
+});
+
+test('rejects a new asset when every position slot is taken', () => {
+  const exposures = [
+    { symbol: 'BTC', notional: 1000 },
+    { symbol: 'XRP', notional: 1000 },
+    { symbol: 'ADA', notional: -1000 },
+  ];
+  const result = checkPortfolioRisk({ symbol: 'LINK', side: 'buy', notional: 500 }, book(exposures), MEDIUM);
+  assert.equal(result.approved, false);
+  assert.equal(result.rejection?.status, 'maxOpenPositions');
+
+  // Adding to an asset already held needs no new slot
+  const adding = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 500 }, book(exposures), MEDIUM);
+  assert.equal(adding.approved, true);
+});
+
+test('rejects instead of scaling when scale down is off or too little fits', () => {
+  const noScale = checkPortfolioRisk(
+    { symbol: 'BTC', side: 'buy', notional: 5000 },
+    book([]),
+    MEDIUM,
+    { allowScaleDown: false }
+  );
+  assert.equal(noScale.approved, false);
+  assert.equal(noScale.rejection?.status, 'assetExposureLimit');
+
+  const exposures = [{ symbol: 'BTC', notional: 3800 }];
+  const tooLittle = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 4000 }, book(exposures), MEDIUM);
+  assert.equal(tooLittle.approved, false);
+  assert.equal(tooLittle.rejection?.limit, 4000);
+  assert.equal(tooLittle.rejection?.current, 3800);
+});
+
+test('rejects risk-increasing orders without equity', () => {
+  const result = checkPortfolioRisk({ symbol: 'BTC', side: 'buy', notional: 100 }, book([], 0), MEDIUM);
+  assert.equal(result.rejection?.status, 'noEquity');
+});
+
+test('applyPortfolioRisk floors the scaled size to the lot size', () => {
+  const order = { symbol: 'BTC', side: 'buy' as const, size: 0.1, price: 50000 };
+
+  const decision = applyPortfolioRisk(order, book([]), 'MEDIUM', true, 0.03);
+  assert.equal(decision.check.scale, 0.8);
+  assert.equal(decision.size, 0.06);
+
+  const unscaled = applyPortfolioRisk({ ...order, size: 0.05 }, book([]), 'MEDIUM', true, 0.03);
+  assert.equal(unscaled.size, 0.05);
+});
+
+test('applyPortfolioRisk rejects an order that floors to zero lots', () => {
+  const order = { symbol: 'BTC', side: 'buy' as const, size: 0.1, price: 50000 };
+  const decision = applyPortfolioRisk(order, book([]), 'MEDIUM', true, 0.1);
+  assert.equal(decision.size, 0);
+  assert.equal(decision.check.approved, false);
+  assert.equal(decision.check.rejection?.status, 'assetExposureLimit');
+  assert.match(decision.check.rejection?.message ?? '', /too small after scaling/);
+});
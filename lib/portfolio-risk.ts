@@ -0,0 +1,413 @@
+// Portfolio level pre-trade risk checks
+// calculatePosition sizes one trade in isolation - these limits look at the whole book
+// before an order is accepted, and scale it down or reject it with a structured reason
+//
+// Exposure is notional in USD, limits are multiples of account equity.
+// Open entry orders count as exposure so resting limits cannot be used to stack risk.
+
+import { TickerData, fromKrakenSymbol } from './kraken';
+import { OrderSide, KrakenOpenOrder, KrakenOpenPosition } from './kraken-private';
+import { RiskMode } from './analysis';
+import { floorToLot } from './instruments';
+import type { PaperLedger } from './paper-broker';
+
+export interface PortfolioLimits {
+  maxGrossExposure: number;       // Sum of |notional| / equity
+  maxNetExposure: number;         // |sum of signed notional| / equity
+  maxAssetExposure: number;       // |notional| in one asset / equity
+  maxCorrelatedExposure: number;  // Same-direction notional within a correlation group / equity
+  maxOpenPositions: number;       // Assets with a position or an open entry order
+}
+
+export const PORTFOLIO_LIMITS: Record<RiskMode, PortfolioLimits> = {
+  LOW: {
+    maxGrossExposure: 0.8,
+    maxNetExposure: 0.6,
+    maxAssetExposure: 0.4,
+    maxCorrelatedExposure: 0.6,
+    maxOpenPositions: 2,
+  },
+  MEDIUM: {
+    maxGrossExposure: 1.2,
+    maxNetExposure: 0.8,
+    maxAssetExposure: 0.4,
+    maxCorrelatedExposure: 0.8,
+    maxOpenPositions: 3,
+  },
+  HIGH: {
+    maxGrossExposure: 1.6,
+    maxNetExposure: 1.0,
+    maxAssetExposure: 0.5,
+    maxCorrelatedExposure: 1.0,
+    maxOpenPositions: 4,
+  },
+  ULTRA: {
+    maxGrossExposure: 2.0,
+    maxNetExposure: 1.2,
+    maxAssetExposure: 0.6,
+    maxCorrelatedExposure: 1.2,
+    maxOpenPositions: 5,
+  },
+};
+
+// Assets that tend to move together - an asset may sit in more than one group
+export const CORRELATION_GROUPS: Record<string, string[]> = {
+  majors: ['BTC', 'ETH', 'SOL'],
+  altcoins: ['SOL', 'ADA', 'AVAX', 'MATIC', 'LINK'],
+  payments: ['XRP', 'LTC', 'DOGE'],
+};
+
+export type RiskRejectionStatus =
+  | 'noEquity'
+  | 'grossExposureLimit'
+  | 'netExposureLimit'
+  | 'assetExposureLimit'
+  | 'correlatedExposureLimit'
+  | 'maxOpenPositions';
+
+export interface RiskRejection {
+  status: RiskRejectionStatus;
+  message: string;
+  limit: number;          // Limit in USD (or positions for maxOpenPositions)
+  current: number;        // Exposure (or positions) before the order
+  requested: number;      // Order notional (or 1 new position)
+  group?: string;         // Correlation group that bound
+}
+
+export interface ExposureEntry {
+  symbol: string;
+  notional: number;       // Signed USD notional - positive long, negative short
+}
+
+export interface PortfolioState {
+  equity: number;
+  exposures: ExposureEntry[];
+}
+
+export interface RiskCheckOrder {
+  symbol: string;
+  side: OrderSide;
+  notional: number;       // Order size * expected price
+  reduceOnly?: boolean;
+}
+
+export interface RiskCheckOptions {
+  allowScaleDown?: boolean;     // Shrink the order to fit instead of rejecting
+  minScaleFraction?: number;    // Reject if less than this fraction of the order fits
+}
+
+export interface RiskCheckResult {
+  approved: boolean;
+  scaled: boolean;
+  requestedNotional: number;
+  approvedNotional: number;
+  scale: number;                // approvedNotional / requestedNotional
+  bindingLimit?: RiskRejectionStatus;
+  rejection?: RiskRejection;
+}
+
+interface Headroom {
+  status: RiskRejectionStatus;
+  maxNotional: number;
+  limit: number;
+  current: number;
+  group?: string;
+}
+
+const LIMIT_NAMES: Record<RiskRejectionStatus, string> = {
+  noEquity: 'Account equity',
+  grossExposureLimit: 'Gross exposure',
+  netExposureLimit: 'Net exposure',
+  assetExposureLimit: 'Per-asset exposure',
+  correlatedExposureLimit: 'Correlated exposure',
+  maxOpenPositions: 'Open positions',
+};
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Net the exposure entries into one signed notional per asset
+ */
+export function netExposureBySymbol(exposures: ExposureEntry[]): Record<string, number> {
+  const bySymbol: Record<string, number> = {};
+  for (const entry of exposures) {
+    const symbol = entry.symbol.toUpperCase();
+    bySymbol[symbol] = (bySymbol[symbol] || 0) + entry.notional;
+  }
+  return bySymbol;
+}
+
+/**
+ * Mark price per symbol (BTC, ETH, ...) from the Kraken tickers
+ */
+export function markPricesBySymbol(tickers: TickerData[]): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const ticker of tickers) {
+    const symbol = fromKrakenSymbol(ticker.symbol);
+    if (symbol && ticker.markPrice) prices[symbol] = ticker.markPrice;
+  }
+  return prices;
+}
+
+function symbolForKraken(krakenSymbol: string): string | undefined {
+  return fromKrakenSymbol(krakenSymbol) ?? undefined;
+}
+
+/**
+ * Paper ledger exposure - positions plus the unfilled part of open entry orders
+ */
+export function paperExposures(ledger: PaperLedger, markPrices: Record<string, number>): ExposureEntry[] {
+  const exposures: ExposureEntry[] = Object.values(ledger.positions).map(p => ({
+    symbol: p.symbol,
+    notional: (p.side === 'long' ? 1 : -1) * p.size * (markPrices[p.symbol] ?? p.markPrice),
+  }));
+
+  for (const order of ledger.orders) {
+    if (order.status !== 'open' || order.reduceOnly) continue;
+    const price = order.limitPrice ?? order.stopPrice ?? markPrices[order.symbol];
+    if (!price) continue;
+    exposures.push({
+      symbol: order.symbol,
+      notional: (order.side === 'buy' ? 1 : -1) * (order.size - order.filledSize) * price,
+    });
+  }
+
+  return exposures;
+}
+
+/**
+ * Live account exposure - open positions plus resting entry orders
+ */
+export function liveExposures(
+  positions: KrakenOpenPosition[],
+  openOrders: KrakenOpenOrder[],
+  markPrices: Record<string, number>
+): ExposureEntry[] {
+  const exposures: ExposureEntry[] = [];
+
+  for (const position of positions) {
+    const symbol = symbolForKraken(position.symbol);
+    if (!symbol) continue;
+    exposures.push({
+      symbol,
+      notional: (position.side === 'long' ? 1 : -1) * position.size * (markPrices[symbol] ?? position.price),
+    });
+  }
+
+  for (const order of openOrders) {
+    const symbol = symbolForKraken(order.symbol);
+    if (!symbol || order.reduceOnly) continue;
+    const price = order.limitPrice ?? order.stopPrice ?? markPrices[symbol];
+    if (!price) continue;
+    exposures.push({
+      symbol,
+      notional: (order.side === 'buy' ? 1 : -1) * order.unfilledSize * price,
+    });
+  }
+
+  return exposures;
+}
+
+/**
+ * True when the order can only shrink exposure - reduce-only, or no larger
+ * than the opposite position it trades against
+ */
+export function reducesExposure(order: RiskCheckOrder, exposures: ExposureEntry[]): boolean {
+  if (order.reduceOnly) return true;
+  const direction = order.side === 'buy' ? 1 : -1;
+  const existing = direction * (netExposureBySymbol(exposures)[order.symbol.toUpperCase()] || 0);
+  return order.notional <= Math.max(0, -existing);
+}
+
+/**
+ * Check an order against the portfolio limits
+ *
+ * Each limit gives the largest order notional that keeps the book inside it.
+ * Reducing existing exposure is always allowed, so a flip is only limited on
+ * the part that opens the new side. The order is scaled to the tightest
+ * headroom, or rejected when that is below minScaleFraction.
+ */
+export function checkPortfolioRisk(
+  order: RiskCheckOrder,
+  state: PortfolioState,
+  limits: PortfolioLimits,
+  options: RiskCheckOptions = {}
+): RiskCheckResult {
+  const { allowScaleDown = true, minScaleFraction = 0.1 } = options;
+  const requested = order.notional;
+  const approve = (): RiskCheckResult => ({
+    approved: true,
+    scaled: false,
+    requestedNotional: requested,
+    approvedNotional: requested,
+    scale: 1,
+  });
+  const reject = (rejection: RiskRejection): RiskCheckResult => ({
+    approved: false,
+    scaled: false,
+    requestedNotional: requested,
+    approvedNotional: 0,
+    scale: 0,
+    bindingLimit: rejection.status,
+    rejection,
+  });
+
+  if (reducesExposure(order, state.exposures)) return approve();
+
+  const symbol = order.symbol.toUpperCase();
+  const direction = order.side === 'buy' ? 1 : -1;
+  const bySymbol = netExposureBySymbol(state.exposures);
+
+  // Existing exposure in this asset, measured in the order's direction
+  const existing = direction * (bySymbol[symbol] || 0);
+  const reducible = Math.max(0, -existing);
+
+  if (!(state.equity > 0)) {
+    return reject({
+      status: 'noEquity',
+      message: 'Account has no equity to support new exposure',
+      limit: 0,
+      current: state.equity,
+      requested,
+    });
+  }
+
+  // Opening a new asset needs a free position slot
+  const openPositions = Object.values(bySymbol).filter(n => n !== 0).length;
+  if (existing === 0 && openPositions >= limits.maxOpenPositions) {
+    return reject({
+      status: 'maxOpenPositions',
+      message: `${LIMIT_NAMES.maxOpenPositions} limit reached (${openPositions}/${limits.maxOpenPositions})`,
+      limit: limits.maxOpenPositions,
+      current: openPositions,
+      requested: 1,
+    });
+  }
+
+  const gross = Object.values(bySymbol).reduce((sum, n) => sum + Math.abs(n), 0);
+  const net = direction * Object.values(bySymbol).reduce((sum, n) => sum + n, 0);
+
+  const grossLimit = limits.maxGrossExposure * state.equity;
+  const netLimit = limits.maxNetExposure * state.equity;
+  const assetLimit = limits.maxAssetExposure * state.equity;
+  const correlatedLimit = limits.maxCorrelatedExposure * state.equity;
+
+  const headrooms: Headroom[] = [
+    {
+      status: 'grossExposureLimit',
+      maxNotional: grossLimit - gross + Math.abs(existing) - existing,
+      limit: grossLimit,
+      current: gross,
+    },
+    {
+      status: 'netExposureLimit',
+      maxNotional: netLimit - net,
+      limit: netLimit,
+      current: Math.abs(net),
+    },
+    {
+      status: 'assetExposureLimit',
+      maxNotional: assetLimit - existing,
+      limit: assetLimit,
+      current: Math.abs(existing),
+    },
+  ];
+
+  for (const [group, members] of Object.entries(CORRELATION_GROUPS)) {
+    if (!members.includes(symbol)) continue;
+    const sameDirection = members.reduce(
+      (sum, member) => sum + Math.max(0, direction * (bySymbol[member] || 0)),
+      0
+    );
+    headrooms.push({
+      status: 'correlatedExposureLimit',
+      maxNotional: correlatedLimit - sameDirection + Math.max(0, existing) - existing,
+      limit: correlatedLimit,
+      current: sameDirection,
+      group,
+    });
+  }
+
+  // Reducing the opposite side never breaches a limit
+  for (const headroom of headrooms) {
+    headroom.maxNotional = Math.max(headroom.maxNotional, reducible);
+  }
+
+  const binding = headrooms.reduce((tightest, h) => h.maxNotional < tightest.maxNotional ? h : tightest);
+  if (binding.maxNotional >= requested) return approve();
+
+  const scale = Math.max(0, binding.maxNotional) / requested;
+  const groupLabel = binding.group ? ` (${binding.group})` : '';
+
+  if (!allowScaleDown || scale < minScaleFraction) {
+    return reject({
+      status: binding.status,
+      message: `${LIMIT_NAMES[binding.status]} limit${groupLabel} of ${formatUsd(binding.limit)} would be exceeded: ` +
+        `current ${formatUsd(binding.current)}, order ${formatUsd(requested)}`,
+      limit: binding.limit,
+      current: binding.current,
+      requested,
+      group: binding.group,
+    });
+  }
+
+  return {
+    approved: true,
+    scaled: true,
+    requestedNotional: requested,
+    approvedNotional: binding.maxNotional,
+    scale,
+    bindingLimit: binding.status,
+  };
+}
+
+export interface RiskDecision {
+  size: number;
+  check: RiskCheckResult;
+}
+
+/**
+ * Run the portfolio risk check and work out the size we are allowed to send
+ * Returns the size to use, or a rejection when nothing fits
+ */
+export function applyPortfolioRisk(
+  order: { symbol: string; side: 'buy' | 'sell'; size: number; price: number; reduceOnly?: boolean },
+  state: PortfolioState,
+  riskMode: RiskMode,
+  allowScaleDown: boolean,
+  lotSize: number | null
+): RiskDecision {
+  const check = checkPortfolioRisk(
+    { symbol: order.symbol, side: order.side, notional: order.size * order.price, reduceOnly: order.reduceOnly },
+    state,
+    PORTFOLIO_LIMITS[riskMode],
+    { allowScaleDown }
+  );
+  if (!check.approved || !check.scaled) {
+    return { size: check.approved ? order.size : 0, check };
+  }
+
+  // Round down to the lot size so the scaled order stays inside the limit
+  const size = floorToLot(order.size * check.scale, lotSize ?? 0.0001);
+  if (size > 0) return { size, check };
+
+  return {
+    size: 0,
+    check: {
+      ...check,
+      approved: false,
+      scaled: false,
+      approvedNotional: 0,
+      scale: 0,
+      rejection: {
+        status: check.bindingLimit!,
+        message: 'Order is too small after scaling to the portfolio limits',
+        limit: check.approvedNotional,
+        current: 0,
+        requested: check.requestedNotional,
+      },
+    },
+  };
+}
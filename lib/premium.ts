@@ -0,0 +1,105 @@
+/**
+ * Perp premium: (markPrice - indexPrice) / indexPrice
+ *
+ * Funding is paid out of the premium, so the premium moves first:
+ * - A premium z-score on the same side as an extreme funding z confirms the extreme
+ * - Premium extreme while funding is not: funding is likely to follow (premium leading)
+ * - Funding extreme while premium has crossed to the other side: the premium has
+ *   already reverted and funding should normalize next (premium reverting)
+ *
+ * Premiums are fractions (0.001 = 0.1%), like funding rates.
+ */
+
+export interface PremiumPoint {
+  timestamp: string;
+  markPrice?: number;
+  indexPrice?: number;
+}
+
+export interface PremiumOptions {
+  windowHours: number;        // Points within this many hours of the latest one
+  minSamples: number;         // Below this, no statistics
+  extremeZ: number;           // |z| that counts as extreme, for premium and funding alike
+  divergenceZ: number;        // Premium z past this on the opposite side of funding = reverting
+}
+
+export type PremiumDivergence = 'premium-leading' | 'premium-reverting';
+
+export interface PremiumAnalysis {
+  premium: number;            // Latest premium, fraction of the index price
+  mean: number;
+  std: number;
+  zScore: number;
+  samples: number;
+  divergence: PremiumDivergence | null;
+  timestamp: string;          // Of the latest point
+}
+
+export const DEFAULT_PREMIUM_OPTIONS: PremiumOptions = {
+  windowHours: 72,
+  minSamples: 24,
+  extremeZ: 1.8,
+  divergenceZ: 1.0,
+};
+
+/**
+ * Premium of the mark over the index, or null without a usable index price
+ */
+export function calculatePremium(markPrice: number | undefined, indexPrice: number | undefined): number | null {
+  if (!markPrice || !indexPrice || !Number.isFinite(markPrice) || !(indexPrice > 0)) return null;
+  return (markPrice - indexPrice) / indexPrice;
+}
+
+/**
+ * Premium series in time order, skipping points without mark and index prices
+ */
+export function premiumSeries(points: PremiumPoint[]): { timestamp: string; premium: number }[] {
+  const series: { timestamp: string; premium: number }[] = [];
+  for (const point of points) {
+    const premium = calculatePremium(point.markPrice, point.indexPrice);
+    if (premium !== null) series.push({ timestamp: point.timestamp, premium });
+  }
+  return series.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Premium statistics over the window, and how they line up with the funding z-score
+ * Returns null with fewer than minSamples points
+ */
+export function analyzePremium(
+  points: PremiumPoint[],
+  fundingZ: number,
+  options: PremiumOptions = DEFAULT_PREMIUM_OPTIONS
+): PremiumAnalysis | null {
+  const series = premiumSeries(points);
+  if (series.length === 0) return null;
+
+  const latest = series[series.length - 1];
+  const latestTime = new Date(latest.timestamp).getTime();
+  const window = series
+    .filter(p => latestTime - new Date(p.timestamp).getTime() <= options.windowHours * 60 * 60 * 1000)
+    .map(p => p.premium);
+  if (window.length < options.minSamples) return null;
+
+  const mean = window.reduce((a, b) => a + b, 0) / window.length;
+  const variance = window.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / window.length;
+  const std = Math.sqrt(variance);
+  const zScore = std > 0 ? (latest.premium - mean) / std : 0;
+
+  let divergence: PremiumDivergence | null = null;
+  if (Math.abs(fundingZ) >= options.extremeZ) {
+    if (Math.sign(fundingZ) * zScore <= -options.divergenceZ) divergence = 'premium-reverting';
+  } else if (Math.abs(zScore) >= options.extremeZ) {
+    divergence = 'premium-leading';
+  }
+
+  return {
+    premium: latest.premium,
+    mean,
+    std,
+    zScore,
+    samples: window.length,
+    divergence,
+    timestamp: latest.timestamp,
+  };
+}
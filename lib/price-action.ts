@@ -0,0 +1,170 @@
+/**
+ * Price action filters: trend, momentum and volatility from OHLC candles
+ *
+ * Funding extremes are faded on the assumption that the crowd is about to unwind.
+ * During a strong trend the crowd is often right for a while longer, so:
+ * - Trend: slope of the moving average, in ATRs over trendSlopePeriods candles
+ * - Momentum: Wilder RSI - a strong trend needs the RSI on its side too
+ * - Volatility: Wilder ATR, also used to scale stop losses (calculatePosition), and realized
+ *   daily volatility from close-to-close log returns for volatility-targeted sizing (risk.ts)
+ *
+ * Candles are whatever resolution the caller stores - the live routes use Kraken 1h candles.
+ */
+
+import { Candle } from './kraken';
+
+export type Trend = 'up' | 'down';
+
+export interface PriceActionOptions {
+  trendMaPeriods: number;         // Candles in the moving average
+  trendSlopePeriods: number;      // MA change is measured over this many candles
+  rsiPeriods: number;
+  atrPeriods: number;
+  strongTrendAtr: number;         // |MA change| in ATRs at or above this is a strong trend
+  rsiMomentum: number;            // RSI at or above this (or 100 - this at or below) backs the trend
+  volatilityPeriods: number;      // Returns in the realized volatility window
+}
+
+export const DEFAULT_PRICE_ACTION_OPTIONS: PriceActionOptions = {
+  trendMaPeriods: 20,
+  trendSlopePeriods: 5,
+  rsiPeriods: 14,
+  atrPeriods: 14,
+  strongTrendAtr: 1,
+  rsiMomentum: 60,
+  volatilityPeriods: 7 * 24,
+};
+
+export interface PriceAction {
+  close: number;
+  ma: number;
+  maSlope: number;                // MA change over trendSlopePeriods, in ATRs - positive = rising
+  rsi: number;                    // 0-100
+  atr: number;                    // Price units
+  atrPercent: number;             // ATR as a fraction of the close, like stopLossPercent
+  dailyVolatility: number | null; // Std of log returns scaled to one day - null below 2 returns
+  strongTrend: Trend | null;      // null unless both slope and RSI agree
+  candles: number;
+  timestamp: string;              // Open time of the latest candle
+}
+
+/**
+ * Fewest candles analyzePriceAction works with
+ */
+export function requiredCandles(options: PriceActionOptions): number {
+  return Math.max(options.trendMaPeriods + options.trendSlopePeriods, options.rsiPeriods + 1, options.atrPeriods + 1);
+}
+
+/**
+ * Candles to load - twice the minimum so the RSI / ATR smoothing settles, and the volatility window
+ */
+export function candleWindow(options: PriceActionOptions): number {
+  return Math.max(requiredCandles(options) * 2, options.volatilityPeriods + 1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Wilder RSI of a close series, oldest first
+ */
+export function wilderRsi(closes: number[], periods: number): number {
+  if (closes.length <= periods) return 50;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= periods) {
+      avgGain += gain / periods;
+      avgLoss += loss / periods;
+    } else {
+      avgGain = (avgGain * (periods - 1) + gain) / periods;
+      avgLoss = (avgLoss * (periods - 1) + loss) / periods;
+    }
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Wilder ATR of a candle series, oldest first
+ */
+export function wilderAtr(candles: Candle[], periods: number): number {
+  if (candles.length <= periods) return 0;
+
+  let atr = 0;
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const previousClose = candles[i - 1].close;
+    const trueRange = Math.max(high - low, Math.abs(high - previousClose), Math.abs(low - previousClose));
+    atr = i <= periods ? atr + trueRange / periods : (atr * (periods - 1) + trueRange) / periods;
+  }
+  return atr;
+}
+
+/**
+ * Realized volatility of a close series (oldest first), scaled to one day
+ * from the candle interval
+ */
+export function realizedDailyVolatility(closes: number[], intervalHours: number): number | null {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i] > 0 && closes[i - 1] > 0) returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+  if (returns.length < 2 || !(intervalHours > 0)) return null;
+
+  const average = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - average, 2), 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(24 / intervalHours);
+}
+
+/**
+ * Trend, momentum and volatility over the candles (any order)
+ * Returns null with fewer than requiredCandles usable candles
+ */
+export function analyzePriceAction(
+  candles: Candle[],
+  options: PriceActionOptions = DEFAULT_PRICE_ACTION_OPTIONS
+): PriceAction | null {
+  const sorted = candles
+    .filter(c => c.close > 0 && Number.isFinite(c.high) && Number.isFinite(c.low))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (sorted.length < requiredCandles(options)) return null;
+
+  const closes = sorted.map(c => c.close);
+  const close = closes[closes.length - 1];
+  const ma = mean(closes.slice(-options.trendMaPeriods));
+  const previousMa = mean(closes.slice(0, -options.trendSlopePeriods).slice(-options.trendMaPeriods));
+  const atr = wilderAtr(sorted, options.atrPeriods);
+  const maSlope = atr > 0 ? (ma - previousMa) / atr : 0;
+  const rsi = wilderRsi(closes, options.rsiPeriods);
+
+  // Candle interval from the median gap, so any resolution scales to a day
+  const gaps = sorted.slice(1)
+    .map((c, i) => new Date(c.timestamp).getTime() - new Date(sorted[i].timestamp).getTime())
+    .sort((a, b) => a - b);
+  const intervalHours = gaps[Math.floor(gaps.length / 2)] / (60 * 60 * 1000);
+  const dailyVolatility = realizedDailyVolatility(closes.slice(-(options.volatilityPeriods + 1)), intervalHours);
+
+  let strongTrend: Trend | null = null;
+  if (maSlope >= options.strongTrendAtr && rsi >= options.rsiMomentum) strongTrend = 'up';
+  else if (maSlope <= -options.strongTrendAtr && rsi <= 100 - options.rsiMomentum) strongTrend = 'down';
+
+  return {
+    close,
+    ma,
+    maSlope,
+    rsi,
+    atr,
+    atrPercent: atr / close,
+    dailyVolatility,
+    strongTrend,
+    candles: sorted.length,
+    timestamp: sorted[sorted.length - 1].timestamp,
+  };
+}
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RISK_PROFILES, calculatePositionSize, sizePosition } from './risk';
+
+const approx = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+const profile = { sizingMethod: 'fixedStop' as const, targetDailyVolatility: 0.01, kellyFraction: 0.25 };
+
+test('fixedStop risks the given fraction between entry and stop', () => {
+  const sized = sizePosition({ capital: 10000, riskPercent: 0.02, stopLossPercent: 0.04 }, profile);
+  assert.equal(sized.sizingMethod, 'fixedStop');
+  approx(sized.notional, 5000);
+  approx(sized.riskAmount, 200);
+  approx(sized.riskPercent, 0.02);
+  assert.equal(sized.kellyStake, null);
+});
+
+test('volatilityTarget gives assets the same volatility, not the same notional', () => {
+  const input = { capital: 10000, riskPercent: 0.02, stopLossPercent: 0.04 };
+  const btc = sizePosition({ ...input, dailyVolatility: 0.02 }, profile, 'volatilityTarget');
+  const doge = sizePosition({ ...input, dailyVolatility: 0.05 }, profile, 'volatilityTarget');
+
+  assert.equal(btc.sizingMethod, 'volatilityTarget');
+  approx(btc.notional, 5000);
+  approx(doge.notional, 2000);
+  approx(btc.notional * 0.02, doge.notional * 0.05);
+  approx(doge.riskAmount, 2000 * 0.04);
+});
+
+test('kelly stakes a fraction of the Kelly fraction from the win probability and payoff', () => {
+  const sized = sizePosition(
+    { capital: 10000, riskPercent: 0.02, stopLossPercent: 0.05, winProbability: 0.6, payoffRatio: 1.5 },
+    profile,
+    'kelly'
+  );
+  // f* = 0.6 - 0.4 / 1.5 = 1/3, a quarter of it at the stop
+  assert.equal(sized.sizingMethod, 'kelly');
+  approx(sized.kellyStake!, 1 / 3);
+  approx(sized.riskPercent, 1 / 12);
+  approx(sized.notional, 10000 * (1 / 12) / 0.05);
+});
+
+test('kelly with no edge sizes to zero', () => {
+  const sized = sizePosition(
+    { capital: 10000, riskPercent: 0.02, stopLossPercent: 0.05, winProbability: 0.3, payoffRatio: 1 },
+    profile,
+    'kelly'
+  );
+  approx(sized.kellyStake!, -0.4);
+  assert.equal(sized.notional, 0);
+  assert.equal(sized.riskAmount, 0);
+});
+
+test('falls back to fixedStop when the method lacks its inputs', () => {
+  const input = { capital: 10000, riskPercent: 0.02, stopLossPercent: 0.04 };
+  assert.equal(sizePosition({ ...input, dailyVolatility: null }, profile, 'volatilityTarget').sizingMethod, 'fixedStop');
+  assert.equal(sizePosition({ ...input, dailyVolatility: 0 }, profile, 'volatilityTarget').sizingMethod, 'fixedStop');
+  assert.equal(sizePosition({ ...input, winProbability: null, payoffRatio: 2 }, profile, 'kelly').sizingMethod, 'fixedStop');
+  assert.equal(sizePosition({ ...input, winProbability: 0.6 }, profile, 'kelly').sizingMethod, 'fixedStop');
+  approx(sizePosition({ ...input, winProbability: 0.6 }, profile, 'kelly').notional, 5000);
+});
+
+test('every method is capped at 10% of capital at the stop', () => {
+  const input = { capital: 10000, riskPercent: 0.3, stopLossPercent: 0.02 };
+  const fixed = sizePosition(input, profile);
+  approx(fixed.riskPercent, 0.1);
+  approx(fixed.notional, 50000);
+
+  const volatility = sizePosition({ ...input, dailyVolatility: 0.0001 }, profile, 'volatilityTarget');
+  approx(volatility.riskPercent, 0.1);
+
+  const kelly = sizePosition({ ...input, winProbability: 0.95, payoffRatio: 3 }, { ...profile, kellyFraction: 1 }, 'kelly');
+  approx(kelly.riskPercent, 0.1);
+});
+
+test('a zero stop distance gives no position', () => {
+  const sized = sizePosition({ capital: 10000, riskPercent: 0.02, stopLossPercent: 0 }, profile);
+  assert.equal(sized.notional, 0);
+});
+
+test('calculatePositionSize scales risk by confidence and caps leverage', () => {
+  const scaled = calculatePositionSize(10000, 'MEDIUM', 0.5, 0.03);
+  approx(scaled.riskAmount, 10000 * RISK_PROFILES.MEDIUM.riskPerTrade * 0.5);
+  approx(scaled.positionSize, 5000);
+
+  // 1% risk over a 0.2% stop is 5x - LOW allows 3x
+  const capped = calculatePositionSize(1000, 'LOW', 1, 0.002);
+  assert.equal(capped.leverage, RISK_PROFILES.LOW.maxLeverage);
+  approx(capped.positionSize, 3000);
+});
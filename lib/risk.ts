@@ -1,62 +1,153 @@
 // Risk management utilities
+//
+// Sizing methods (per RiskProfile, see sizePosition):
+// - fixedStop: risk a fixed fraction of capital between entry and stop
+// - volatilityTarget: notional so the position adds targetDailyVolatility of daily
+//   portfolio volatility, from the asset's realized volatility - BTC and DOGE end
+//   up with the same volatility, not the same notional
+// - kelly: a fraction of the Kelly stake from the calibrated win probability and payoff
 
 export type RiskMode = 'LOW' | 'MEDIUM' | 'HIGH' | 'ULTRA';
 
+export type SizingMethod = 'fixedStop' | 'volatilityTarget' | 'kelly';
+
+export const SIZING_METHODS: SizingMethod[] = ['fixedStop', 'volatilityTarget', 'kelly'];
+
 export interface RiskProfile {
   mode: RiskMode;
   riskPerTrade: number;  // Percentage of capital
   maxLeverage: number;
+  sizingMethod: SizingMethod;
+  targetDailyVolatility: number;  // volatilityTarget: daily portfolio volatility per position, fraction of capital
+  kellyFraction: number;          // kelly: fraction of the full Kelly stake
   description: string;
 }
 
+// Most capital any sizing method may put at risk between entry and stop
+const MAX_RISK_PER_TRADE = 0.10;
+
 export const RISK_PROFILES: Record<RiskMode, RiskProfile> = {
   LOW: {
     mode: 'LOW',
     riskPerTrade: 0.01,  // 1%
     maxLeverage: 3,
+    sizingMethod: 'fixedStop',
+    targetDailyVolatility: 0.005,
+    kellyFraction: 0.25,
     description: 'Conservative - slow compounding',
   },
   MEDIUM: {
     mode: 'MEDIUM',
     riskPerTrade: 0.03,  // 3%
     maxLeverage: 7,
+    sizingMethod: 'fixedStop',
+    targetDailyVolatility: 0.01,
+    kellyFraction: 0.25,
     description: 'Balanced growth',
   },
   HIGH: {
     mode: 'HIGH',
     riskPerTrade: 0.05,  // 5%
     maxLeverage: 10,
+    sizingMethod: 'fixedStop',
+    targetDailyVolatility: 0.015,
+    kellyFraction: 0.5,
     description: 'Aggressive trading',
   },
   ULTRA: {
     mode: 'ULTRA',
     riskPerTrade: 0.10,  // 10%
     maxLeverage: 15,
+    sizingMethod: 'fixedStop',
+    targetDailyVolatility: 0.025,
+    kellyFraction: 0.5,
     description: 'Maximum aggression',
   },
 };
 
+export interface SizingInput {
+  capital: number;
+  riskPercent: number;            // fixedStop risk per trade, fraction of capital
+  stopLossPercent: number;        // Stop distance, fraction of the entry price
+  dailyVolatility?: number | null;  // volatilityTarget: the asset's realized daily volatility
+  winProbability?: number | null;   // kelly: calibrated - formula estimates are too optimistic to bet on
+  payoffRatio?: number;           // kelly: take profit distance / stop distance
+}
+
+export interface SizingResult {
+  sizingMethod: SizingMethod;     // Method used - fixedStop when the chosen method's inputs are missing
+  notional: number;
+  riskAmount: number;             // Loss at the stop
+  riskPercent: number;            // riskAmount as a fraction of capital
+  kellyStake: number | null;      // Full Kelly fraction of capital, before kellyFraction - kelly only
+}
+
+/**
+ * Notional and risk for one position with the profile's sizing method
+ * Every method is capped at MAX_RISK_PER_TRADE of capital at the stop
+ */
+export function sizePosition(
+  input: SizingInput,
+  profile: Pick<RiskProfile, 'sizingMethod' | 'targetDailyVolatility' | 'kellyFraction'>,
+  method: SizingMethod = profile.sizingMethod
+): SizingResult {
+  const { capital, stopLossPercent } = input;
+  const result = (sizingMethod: SizingMethod, riskPercent: number, kellyStake: number | null = null): SizingResult => {
+    const capped = Math.max(0, Math.min(riskPercent, MAX_RISK_PER_TRADE));
+    return {
+      sizingMethod,
+      notional: stopLossPercent > 0 ? capital * capped / stopLossPercent : 0,
+      riskAmount: capital * capped,
+      riskPercent: capped,
+      kellyStake,
+    };
+  };
+
+  if (method === 'volatilityTarget' && input.dailyVolatility && input.dailyVolatility > 0) {
+    // notional x asset volatility = capital x target volatility
+    const notional = capital * profile.targetDailyVolatility / input.dailyVolatility;
+    return result('volatilityTarget', capital > 0 ? notional * stopLossPercent / capital : 0);
+  }
+
+  if (method === 'kelly' && input.winProbability !== null && input.winProbability !== undefined && input.payoffRatio && input.payoffRatio > 0) {
+    // f* = p - (1 - p) / b, the fraction of capital to lose at the stop
+    const p = input.winProbability;
+    const kellyStake = p - (1 - p) / input.payoffRatio;
+    return result('kelly', Math.max(0, kellyStake) * profile.kellyFraction, kellyStake);
+  }
+
+  return result('fixedStop', input.riskPercent);
+}
+
 /**
  * Calculate position size based on Kelly-adjacent formula
+ * Pass volatility or a calibrated win probability to use the profile's other sizing methods
  */
 export function calculatePositionSize(
   capital: number,
   riskMode: RiskMode,
   confidence: number,  // 0-1 signal confidence
-  stopLossPercent: number = 0.02  // Default 2% stop
+  stopLossPercent: number = 0.02,  // Default 2% stop
+  sizing: Pick<SizingInput, 'dailyVolatility' | 'winProbability' | 'payoffRatio'> & { sizingMethod?: SizingMethod } = {}
 ): { 
   positionSize: number; 
   leverage: number;
   riskAmount: number;
+  sizingMethod: SizingMethod;
 } {
   const profile = RISK_PROFILES[riskMode];
   
   // Scale risk by signal confidence (Kelly-adjacent)
   const adjustedRisk = profile.riskPerTrade * confidence;
-  const riskAmount = capital * adjustedRisk;
+  const sized = sizePosition(
+    { capital, riskPercent: adjustedRisk, stopLossPercent, ...sizing },
+    profile,
+    sizing.sizingMethod
+  );
+  const riskAmount = sized.riskAmount;
   
   // Position size = Risk Amount / Stop Loss %
-  const basePositionSize = riskAmount / stopLossPercent;
+  const basePositionSize = sized.notional;
   
   // Calculate implied leverage
   const impliedLeverage = basePositionSize / capital;
@@ -69,6 +160,7 @@ export function calculatePositionSize(
     positionSize,
     leverage,
     riskAmount,
+    sizingMethod: sized.sizingMethod,
   };
 }
 
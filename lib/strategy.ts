@@ -0,0 +1,690 @@
+/**
+ * Strategy Engine: Funding Rate Mean Reversion
+ *
+ * The single place signals are generated - /api/funding, /api/signals,
+ * analyzeAsset and the backtester all call evaluateSignal.
+ *
+ * Core Logic:
+ * - Z-score of the current funding rate vs the lookback window, with the
+ *   configured estimator (standard, EWMA, median / MAD or percentile rank)
+ * - Stack confirmations (z thresholds, trend reversal, historical extreme,
+ *   open interest / volume behaviour, perp premium, predicted funding and
+ *   short / medium / long windows agreeing with the extreme)
+ * - Map z-score + confirmations to a signal level
+ * - Fall back to absolute rate thresholds when history is too short
+ * - Block or downgrade a fade against a strong price trend (MA slope + RSI)
+ * - Downgrade to NEUTRAL when the inputs fail a data quality check
+ *
+ * All rates are fractions (0.0001 = 0.01%), never percentages, and are normalized
+ * to a per-hour basis from their venue's funding interval before any statistics.
+ */
+
+import { Candle, FundingRate } from './kraken';
+import { CalibrationTable, calibrateProbability } from './calibration';
+import { PremiumAnalysis, analyzePremium } from './premium';
+import { annualizeHourlyRate, inferFundingIntervalHours, toHourlyRate } from './funding-interval';
+import { DataQuality, assessDataQuality } from './data-quality';
+import { ZScoreEstimator, estimateWindow } from './estimators';
+import { PriceAction, analyzePriceAction } from './price-action';
+
+export type SignalType =
+  | 'ULTRA_LONG'
+  | 'STRONG_LONG'
+  | 'LONG'
+  | 'NEUTRAL'
+  | 'SHORT'
+  | 'STRONG_SHORT'
+  | 'ULTRA_SHORT';
+
+export type SignalStrength = 'ULTRA' | 'STRONG' | 'BASE';
+
+// What happens to a fade against a strong trend - block: NEUTRAL, downgrade: one level down
+export type TrendFilterMode = 'block' | 'downgrade' | 'off';
+
+export const TREND_FILTER_MODES: TrendFilterMode[] = ['block', 'downgrade', 'off'];
+
+export interface SignalLevel {
+  strength: SignalStrength;
+  minZ: number;
+  minConfirmations: number;
+}
+
+export interface StrategyConfig {
+  lookbackPeriods: number;        // Funding periods in the z-score window
+  minHistoryPeriods: number;      // Below this, use absolute thresholds instead of z-scores
+  estimator: ZScoreEstimator;     // How the window's center, scale and z-score are estimated
+  ewmaHalfLifePeriods: number;    // Half-life of the ewma estimator
+  windowPeriods: number[];        // Extra z-score windows, e.g. short / medium / long - skipped without enough history
+  windowAgreementConfirmation: boolean;   // Count the windows agreeing with the extreme
+  windowAgreementRatio: number;   // Fraction of windows past the first threshold on the same side, 1 = all
+  confirmationZThresholds: number[];  // Each |z| threshold crossed adds a confirmation
+  levels: SignalLevel[];          // Checked in order - first match wins
+  reversalPeriods: number;        // Periods used for the funding trend
+  historicalExtremeRatio: number; // Within this fraction of the window max/min counts as extreme
+  predictedConfirmation: boolean; // Count a predicted rate beyond the first z threshold, same side
+  oiCrowdingConfirmation: boolean;  // OI up oiCrowdingChange over oiWindowHours while funding is extreme
+  oiFlushConfirmation: boolean;     // OI down oiFlushChange from its window peak - the unwind has started
+  volumeSpikeConfirmation: boolean; // vol24h at volumeSpikeRatio x its window average
+  oiWindowHours: number;
+  oiCrowdingChange: number;       // Fraction, 0.05 = +5%
+  oiFlushChange: number;          // Fraction below the window peak
+  volumeWindowHours: number;
+  volumeSpikeRatio: number;
+  premiumConfirmation: boolean;   // Count a premium z past the first threshold on the funding side
+  premiumWindowHours: number;
+  premiumMinSamples: number;      // Market snapshots needed for premium statistics
+  premiumDivergenceZ: number;     // Premium z this far on the other side = premium reverting
+  trendFilter: TrendFilterMode;   // Fades against a strong price trend - needs candles
+  trendMaPeriods: number;         // Candles in the trend moving average
+  trendSlopePeriods: number;      // MA change is measured over this many candles
+  rsiPeriods: number;
+  atrPeriods: number;
+  strongTrendAtr: number;         // |MA change| in ATRs for a strong trend
+  rsiMomentum: number;            // RSI at or above this (below 100 - this) backs the trend
+  volatilityPeriods: number;      // Candle returns in the realized volatility window
+  dataQualityGuard: boolean;      // Downgrade to NEUTRAL on data quality errors
+  maxTickerAgeMinutes: number;    // Older ticker lastTime = stale
+  maxMissingFraction: number;     // Missing funding periods in the window above this fraction = error
+  outlierZ: number;               // Robust (median / MAD) z beyond this = outlier rate
+  maxHourlyRate: number;          // |rate| per hour beyond this = outlier rate
+  absoluteThresholds: {           // Per hour, used without enough history
+    strong: number;
+    base: number;
+  };
+}
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  lookbackPeriods: 90,
+  minHistoryPeriods: 30,
+  estimator: 'standard',
+  ewmaHalfLifePeriods: 24,
+  windowPeriods: [],
+  windowAgreementConfirmation: false,
+  windowAgreementRatio: 1,
+  confirmationZThresholds: [1.8, 2.0, 2.5, 3.0],
+  levels: [
+    { strength: 'ULTRA', minZ: 3.0, minConfirmations: 5 },
+    { strength: 'STRONG', minZ: 2.5, minConfirmations: 4 },
+    { strength: 'BASE', minZ: 2.0, minConfirmations: 3 },
+    { strength: 'BASE', minZ: 1.8, minConfirmations: 2 },
+  ],
+  reversalPeriods: 6,
+  historicalExtremeRatio: 0.9,
+  predictedConfirmation: true,
+  oiCrowdingConfirmation: true,
+  oiFlushConfirmation: true,
+  volumeSpikeConfirmation: true,
+  oiWindowHours: 24,
+  oiCrowdingChange: 0.05,
+  oiFlushChange: 0.05,
+  volumeWindowHours: 7 * 24,
+  volumeSpikeRatio: 2,
+  premiumConfirmation: true,
+  premiumWindowHours: 72,
+  premiumMinSamples: 24,
+  premiumDivergenceZ: 1.0,
+  trendFilter: 'downgrade',
+  trendMaPeriods: 20,
+  trendSlopePeriods: 5,
+  rsiPeriods: 14,
+  atrPeriods: 14,
+  strongTrendAtr: 1,
+  rsiMomentum: 60,
+  volatilityPeriods: 7 * 24,
+  dataQualityGuard: true,
+  maxTickerAgeMinutes: 15,
+  maxMissingFraction: 0.1,
+  outlierZ: 20,
+  maxHourlyRate: 0.005,
+  absoluteThresholds: {
+    strong: 0.000125,   // 0.1% per 8h - very overleveraged
+    base: 0.0000625,    // 0.05% per 8h - overleveraged
+  },
+};
+
+/**
+ * Forward-looking view from the exchange's next-period funding prediction
+ * z-scored against the same window as the realized rate
+ */
+export interface PredictedFunding {
+  fundingRate: number;            // Fraction per hour
+  annualizedRate: number;         // Percent per year
+  zScore: number;
+  signal: SignalType;             // Signal if the prediction prints as-is
+  confirmations: number;
+}
+
+/**
+ * z-score of the current rate over one window of the multi-window analysis
+ */
+export interface WindowZScore {
+  periods: number;
+  zScore: number;
+  mean: number;                   // Estimator center
+  std: number;                    // Estimator scale
+}
+
+/**
+ * Canonical signal schema returned by every route
+ */
+export interface Signal {
+  symbol: string;
+  signal: SignalType;
+  signalSource: 'zscore' | 'threshold';
+  estimator: ZScoreEstimator | null;  // null for threshold signals
+  zScore: number;
+  currentFundingRate: number;     // Fraction per hour
+  annualizedRate: number;         // Percent per year (hourly rate * 24 * 365)
+  fundingIntervalHours: number;   // Venue interval of the current rate, before normalization
+  historyIntervalHours: number;   // Venue interval of the history, before normalization
+  mean: number;                   // Estimator center - EWMA mean or median for those estimators
+  std: number;                    // Estimator scale
+  price: number;
+  priceChange24h: number;         // Percent
+  confirmations: number;
+  confirmationDetails: string[];
+  isFundingReversing: boolean;
+  edgeScore: number;
+  winProbability: number;
+  calibrationSamples: number;     // Outcomes behind winProbability (0 = formula fallback)
+  probabilitySource: 'calibrated' | 'formula';
+  confidence: number;             // 0-1
+  predicted: PredictedFunding | null;   // null when no prediction was supplied
+  windows: WindowZScore[];        // One per windowPeriods entry with enough history, shortest first
+  windowAgreement: number | null; // Fraction of windows past the first threshold on the z side - null below 2 windows
+  premium: PremiumAnalysis | null;      // null without enough mark / index snapshots
+  priceAction: PriceAction | null;      // null without enough candles
+  trendFilteredFrom: SignalType | null; // Signal before the trend filter blocked or downgraded it
+  dataQuality: DataQuality;
+  downgradedFrom: SignalType | null;    // Signal before a data quality downgrade to NEUTRAL
+  timestamp: string;
+}
+
+/**
+ * Open interest / volume / premium observation - history-store MarketSnapshots fit this shape
+ */
+export interface MarketPoint {
+  timestamp: string;
+  openInterest: number;
+  vol24h: number;             // Rolling 24h volume
+  markPrice?: number;
+  indexPrice?: number;
+}
+
+export interface SignalInput {
+  symbol: string;
+  history: FundingRate[];         // Realized funding history (any order)
+  currentRate?: number;           // Defaults to the latest relativeFundingRate in history
+  predictedRate?: number;         // Next-period prediction, same interval as currentRate
+  historyIntervalHours?: number;  // Inferred from the history timestamps when omitted
+  currentIntervalHours?: number;  // Interval of currentRate / predictedRate - defaults to the history's
+  market?: MarketPoint[];         // OI / volume / premium history (any order), latest point = now
+  price: number;
+  open24h?: number;               // For priceChange24h
+  ticker?: { lastTime?: string; suspended?: boolean };  // Live ticker state - omitted in backtests
+  candles?: Candle[];             // Price candles (any order) for the trend filter and ATR stops
+}
+
+/**
+ * Funding periods of history the config can use - the lookback or the longest extra window
+ */
+export function requiredHistoryPeriods(config: Pick<StrategyConfig, 'lookbackPeriods' | 'windowPeriods'>): number {
+  return Math.max(config.lookbackPeriods, ...config.windowPeriods);
+}
+
+/**
+ * Merge overrides into the default config
+ */
+export function createStrategyConfig(overrides: Partial<StrategyConfig> = {}): StrategyConfig {
+  return {
+    ...DEFAULT_STRATEGY_CONFIG,
+    ...overrides,
+    absoluteThresholds: {
+      ...DEFAULT_STRATEGY_CONFIG.absoluteThresholds,
+      ...overrides.absoluteThresholds,
+    },
+  };
+}
+
+function toSignalType(strength: SignalStrength, isShort: boolean): SignalType {
+  const direction = isShort ? 'SHORT' : 'LONG';
+  return strength === 'BASE' ? direction : `${strength}_${direction}`;
+}
+
+// One strength level down - BASE drops to NEUTRAL
+function downgradeSignal(signal: SignalType): SignalType {
+  if (signal.startsWith('ULTRA_')) return signal.replace('ULTRA_', 'STRONG_') as SignalType;
+  if (signal.startsWith('STRONG_')) return signal.replace('STRONG_', '') as SignalType;
+  return 'NEUTRAL';
+}
+
+// Block or downgrade a fade against a strong trend - shorting into a rally, buying into a selloff
+function applyTrendFilter(
+  signal: SignalType,
+  confidence: number,
+  priceAction: PriceAction | null,
+  config: StrategyConfig
+): { signal: SignalType; confidence: number; trendFilteredFrom: SignalType | null } {
+  const counterTrend = priceAction?.strongTrend &&
+    (signal.endsWith('SHORT') ? priceAction.strongTrend === 'up' : signal.endsWith('LONG') && priceAction.strongTrend === 'down');
+  if (config.trendFilter === 'off' || !counterTrend) {
+    return { signal, confidence, trendFilteredFrom: null };
+  }
+
+  const filtered = config.trendFilter === 'block' ? 'NEUTRAL' : downgradeSignal(signal);
+  const cap = filtered === 'NEUTRAL' ? 0 : filtered.startsWith('STRONG') ? 1 : 0.8;
+  return { signal: filtered, confidence: Math.min(confidence, cap), trendFilteredFrom: signal };
+}
+
+// First level whose z and confirmation requirements are met
+function matchLevel(zScore: number, confirmations: number, config: StrategyConfig): SignalLevel | undefined {
+  const absZ = Math.abs(zScore);
+  return config.levels.find(level => absZ >= level.minZ && confirmations >= level.minConfirmations);
+}
+
+// Trend over the last reversalPeriods rates, and whether it points back toward the mean
+function fundingReversal(rates: number[], mean: number, config: StrategyConfig): boolean {
+  const recentRates = rates.slice(-config.reversalPeriods);
+  const fundingTrend = recentRates.length >= 2
+    ? (recentRates[recentRates.length - 1] - recentRates[0]) / (recentRates.length - 1)
+    : 0;
+  const rate = recentRates[recentRates.length - 1] ?? 0;
+  return (rate > mean && fundingTrend < 0) || (rate < mean && fundingTrend > 0);
+}
+
+// z-threshold, trend reversal and historical extreme confirmations for one rate
+function rateConfirmations(
+  rate: number,
+  zScore: number,
+  isFundingReversing: boolean,
+  lookback: number[],
+  config: StrategyConfig
+): string[] {
+  const absZ = Math.abs(zScore);
+  const details: string[] = [];
+
+  config.confirmationZThresholds.forEach((threshold, i) => {
+    if (absZ < threshold) return;
+    if (i === 0) details.push(`Z-Score: ${zScore.toFixed(2)}σ`);
+    else if (i === 1) details.push(`Above ${threshold}σ threshold`);
+    else if (i === 2) details.push(`Extreme deviation (${threshold}σ+)`);
+    else details.push(`🔥 Ultra extreme (${threshold}σ+)`);
+  });
+
+  if (isFundingReversing) details.push('Funding trend reversing');
+
+  const historicalMax = Math.max(...lookback);
+  const historicalMin = Math.min(...lookback);
+  if (
+    rate > historicalMax * config.historicalExtremeRatio ||
+    rate < historicalMin * config.historicalExtremeRatio
+  ) {
+    details.push('Near historical extreme');
+  }
+
+  return details;
+}
+
+// The current rate over each configured window, with the share that agree with the main z-score
+function windowAnalysis(
+  rates: number[],
+  currentRate: number,
+  zScore: number,
+  config: StrategyConfig
+): { windows: WindowZScore[]; agreement: number | null } {
+  const windows = Array.from(new Set(config.windowPeriods))
+    .filter(periods => periods >= 2 && rates.length >= periods)
+    .sort((a, b) => a - b)
+    .map(periods => {
+      const stats = estimateWindow(rates.slice(-periods), config.estimator, config);
+      return { periods, zScore: stats.zScore(currentRate), mean: stats.center, std: stats.scale };
+    });
+
+  const firstThreshold = config.confirmationZThresholds[0];
+  if (windows.length < 2 || firstThreshold === undefined) return { windows, agreement: null };
+
+  const agreeing = windows.filter(w =>
+    Math.abs(w.zScore) >= firstThreshold && Math.sign(w.zScore) === Math.sign(zScore)
+  ).length;
+  return { windows, agreement: agreeing / windows.length };
+}
+
+// Open interest and volume confirmations - only counted while funding is extreme
+function marketConfirmations(
+  market: MarketPoint[] | undefined,
+  zScore: number,
+  config: StrategyConfig
+): string[] {
+  const firstThreshold = config.confirmationZThresholds[0];
+  if (!market || market.length < 2 || firstThreshold === undefined || Math.abs(zScore) < firstThreshold) {
+    return [];
+  }
+
+  const points = [...market]
+    .filter(p => Number.isFinite(p.openInterest) && Number.isFinite(p.vol24h))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (points.length < 2) return [];
+
+  const latest = points[points.length - 1];
+  const latestTime = new Date(latest.timestamp).getTime();
+  const within = (hours: number) =>
+    points.filter(p => latestTime - new Date(p.timestamp).getTime() <= hours * 60 * 60 * 1000);
+  const details: string[] = [];
+
+  const oiWindow = within(config.oiWindowHours).filter(p => p.openInterest > 0);
+  if (oiWindow.length >= 2 && latest.openInterest > 0) {
+    const oiChange = latest.openInterest / oiWindow[0].openInterest - 1;
+    const oiPeak = Math.max(...oiWindow.map(p => p.openInterest));
+    const fromPeak = latest.openInterest / oiPeak - 1;
+    const side = zScore > 0 ? 'longs' : 'shorts';
+
+    if (config.oiCrowdingConfirmation && oiChange >= config.oiCrowdingChange) {
+      details.push(`OI +${(oiChange * 100).toFixed(1)}% in ${config.oiWindowHours}h - ${side} crowding in`);
+    }
+    if (config.oiFlushConfirmation && fromPeak <= -config.oiFlushChange) {
+      details.push(`OI ${(fromPeak * 100).toFixed(1)}% from ${config.oiWindowHours}h peak - ${side} unwinding`);
+    }
+  }
+
+  const volumeWindow = within(config.volumeWindowHours).slice(0, -1).filter(p => p.vol24h > 0);
+  if (config.volumeSpikeConfirmation && volumeWindow.length > 0 && latest.vol24h > 0) {
+    const averageVolume = volumeWindow.reduce((sum, p) => sum + p.vol24h, 0) / volumeWindow.length;
+    const volumeRatio = latest.vol24h / averageVolume;
+    if (volumeRatio >= config.volumeSpikeRatio) {
+      details.push(`Volume spike (${volumeRatio.toFixed(1)}x ${config.volumeWindowHours / 24}d average)`);
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Evaluate one asset and produce the canonical signal
+ */
+export function evaluateSignal(
+  input: SignalInput,
+  config: StrategyConfig = DEFAULT_STRATEGY_CONFIG,
+  calibration?: CalibrationTable | null
+): Signal {
+  const historyIntervalHours = input.historyIntervalHours ?? inferFundingIntervalHours(input.history) ?? 1;
+  const fundingIntervalHours = input.currentIntervalHours ?? historyIntervalHours;
+
+  // Everything from here on is per hour
+  const sortedHistory = [...input.history]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const sortedRates = sortedHistory.map(r => toHourlyRate(r.relativeFundingRate, historyIntervalHours));
+
+  const currentRate = input.currentRate !== undefined
+    ? toHourlyRate(input.currentRate, fundingIntervalHours)
+    : sortedRates[sortedRates.length - 1] ?? 0;
+  const predictedRate = input.predictedRate !== undefined && Number.isFinite(input.predictedRate)
+    ? toHourlyRate(input.predictedRate, fundingIntervalHours)
+    : undefined;
+
+  const priceChange24h = input.open24h && input.open24h > 0
+    ? ((input.price - input.open24h) / input.open24h) * 100
+    : 0;
+
+  // Checked over the same window the z-score uses
+  const dataQuality = assessDataQuality({
+    price: input.price,
+    history: sortedHistory.slice(-config.lookbackPeriods),
+    hourlyRates: sortedRates.slice(-config.lookbackPeriods),
+    currentRate,
+    historyIntervalHours,
+    ticker: input.ticker,
+  }, config);
+
+  const priceAction = input.candles ? analyzePriceAction(input.candles, config) : null;
+
+  // Counter-trend fades are filtered first, then bad inputs keep their statistics
+  // for display but can't be traded
+  const guard = (unfiltered: Omit<Signal, 'priceAction' | 'trendFilteredFrom' | 'dataQuality' | 'downgradedFrom'>): Signal => {
+    const signal = {
+      ...unfiltered,
+      ...applyTrendFilter(unfiltered.signal, unfiltered.confidence, priceAction, config),
+      priceAction,
+    };
+    if (!config.dataQualityGuard || dataQuality.ok || signal.signal === 'NEUTRAL') {
+      return { ...signal, dataQuality, downgradedFrom: null };
+    }
+    return { ...signal, signal: 'NEUTRAL', confidence: 0, dataQuality, downgradedFrom: signal.signal };
+  };
+
+  const base = {
+    symbol: input.symbol,
+    currentFundingRate: currentRate,
+    annualizedRate: annualizeHourlyRate(currentRate),
+    fundingIntervalHours,
+    historyIntervalHours,
+    price: input.price,
+    priceChange24h,
+    timestamp: new Date().toISOString(),
+  };
+
+  const premiumFor = (fundingZ: number) => analyzePremium(input.market ?? [], fundingZ, {
+    windowHours: config.premiumWindowHours,
+    minSamples: config.premiumMinSamples,
+    extremeZ: config.confirmationZThresholds[0] ?? DEFAULT_STRATEGY_CONFIG.confirmationZThresholds[0],
+    divergenceZ: config.premiumDivergenceZ,
+  });
+
+  if (sortedRates.length < config.minHistoryPeriods) {
+    return guard({ ...base, premium: premiumFor(0), ...evaluateThreshold(currentRate, predictedRate, config) });
+  }
+
+  const lookback = sortedRates.slice(-config.lookbackPeriods);
+
+  // Calculate statistics
+  const stats = estimateWindow(lookback, config.estimator, config);
+  const mean = stats.center;
+  const std = stats.scale;
+  const zScore = stats.zScore(currentRate);
+  const absZ = Math.abs(zScore);
+
+  // Funding trend over the last few periods (including the current rate)
+  const realizedRates = input.currentRate === undefined ? sortedRates : [...sortedRates, currentRate];
+  const isFundingReversing = fundingReversal(realizedRates, mean, config);
+
+  // Count confirmations
+  const confirmationDetails = [
+    ...rateConfirmations(currentRate, zScore, isFundingReversing, lookback, config),
+    ...marketConfirmations(input.market, zScore, config),
+  ];
+
+  // Funding follows the premium - an extreme premium on the same side backs the funding extreme
+  const premium = premiumFor(zScore);
+  const firstThreshold = config.confirmationZThresholds[0];
+  if (
+    config.premiumConfirmation &&
+    premium &&
+    firstThreshold !== undefined &&
+    absZ >= firstThreshold &&
+    Math.abs(premium.zScore) >= firstThreshold &&
+    Math.sign(premium.zScore) === Math.sign(zScore)
+  ) {
+    confirmationDetails.push(`Premium confirms extreme (${premium.zScore.toFixed(2)}σ, ${(premium.premium * 100).toFixed(3)}%)`);
+  }
+
+  // The extreme holds over short, medium and long windows, not just the lookback
+  const { windows, agreement: windowAgreement } = windowAnalysis(sortedRates, currentRate, zScore, config);
+  if (
+    config.windowAgreementConfirmation &&
+    windowAgreement !== null &&
+    firstThreshold !== undefined &&
+    absZ >= firstThreshold &&
+    windowAgreement >= config.windowAgreementRatio
+  ) {
+    const breakdown = windows
+      .map(w => `${w.periods}p ${w.zScore >= 0 ? '+' : ''}${w.zScore.toFixed(2)}σ`)
+      .join(', ');
+    confirmationDetails.push(`Windows agree (${breakdown})`);
+  }
+
+  // Predicted funding - the same window, one period ahead
+  let predicted: PredictedFunding | null = null;
+  if (predictedRate !== undefined) {
+    const predictedZ = stats.zScore(predictedRate);
+    const predictedReversing = fundingReversal([...realizedRates, predictedRate], mean, config);
+    const predictedDetails = [
+      ...rateConfirmations(predictedRate, predictedZ, predictedReversing, lookback, config),
+      ...marketConfirmations(input.market, predictedZ, config),
+    ];
+    const predictedLevel = matchLevel(predictedZ, predictedDetails.length, config);
+
+    predicted = {
+      fundingRate: predictedRate,
+      annualizedRate: annualizeHourlyRate(predictedRate),
+      zScore: predictedZ,
+      signal: predictedLevel ? toSignalType(predictedLevel.strength, predictedZ > 0) : 'NEUTRAL',
+      confirmations: predictedDetails.length,
+    };
+
+    // The next print staying extreme on the same side confirms the realized extreme
+    if (
+      config.predictedConfirmation &&
+      firstThreshold !== undefined &&
+      Math.abs(predictedZ) >= firstThreshold &&
+      Math.sign(predictedZ) === Math.sign(zScore)
+    ) {
+      confirmationDetails.push(`Predicted funding confirms extreme (${predictedZ.toFixed(2)}σ)`);
+    }
+  }
+
+  const confirmations = confirmationDetails.length;
+
+  // Determine signal - high funding means crowded longs, so fade with a short
+  const matchedLevel = matchLevel(zScore, confirmations, config);
+  const signal: SignalType = matchedLevel ? toSignalType(matchedLevel.strength, zScore > 0) : 'NEUTRAL';
+
+  // Formula estimates - used when there is no calibration data for this bucket
+  const formulaEdgeScore = Math.min(100, (absZ * 15) + (confirmations * 12));
+
+  let formulaWinProbability = 0.50;
+  formulaWinProbability += Math.min(0.15, absZ * 0.05);
+  formulaWinProbability += confirmations * 0.03;
+  if (isFundingReversing) formulaWinProbability += 0.05;
+  formulaWinProbability = Math.min(0.80, formulaWinProbability);
+
+  const calibrated = calibrateProbability(
+    calibration,
+    zScore,
+    confirmations,
+    { winProbability: formulaWinProbability, edgeScore: formulaEdgeScore }
+  );
+
+  const confidence = matchedLevel
+    ? Math.min(absZ / 3, matchedLevel.strength === 'BASE' ? 0.8 : 1)
+    : 0;
+
+  return guard({
+    ...base,
+    signal,
+    signalSource: 'zscore',
+    estimator: stats.estimator,
+    zScore,
+    mean,
+    std,
+    confirmations,
+    confirmationDetails,
+    isFundingReversing,
+    ...calibrated,
+    confidence,
+    predicted,
+    windows,
+    windowAgreement,
+    premium,
+  });
+}
+
+// Absolute threshold signal type for one rate
+function thresholdSignal(rate: number, config: StrategyConfig): SignalType {
+  const { strong, base } = config.absoluteThresholds;
+  if (Math.abs(rate) >= strong) return rate > 0 ? 'STRONG_SHORT' : 'STRONG_LONG';
+  if (Math.abs(rate) >= base) return rate > 0 ? 'SHORT' : 'LONG';
+  return 'NEUTRAL';
+}
+
+/**
+ * Absolute threshold signal - used when there is not enough history for a z-score
+ */
+function evaluateThreshold(
+  currentRate: number,
+  predictedRate: number | undefined,
+  config: StrategyConfig
+): Omit<Signal, 'symbol' | 'currentFundingRate' | 'annualizedRate' | 'fundingIntervalHours' | 'historyIntervalHours' | 'price' | 'priceChange24h' | 'timestamp' | 'premium' | 'priceAction' | 'trendFilteredFrom' | 'dataQuality' | 'downgradedFrom'> {
+  const signal = thresholdSignal(currentRate, config);
+  const confidence = signal === 'NEUTRAL' ? 0 : signal.startsWith('STRONG') ? 0.7 : 0.5;
+  const confirmationDetails: string[] = [];
+
+  if (signal !== 'NEUTRAL') {
+    confirmationDetails.push(`Funding ${(currentRate * 100).toFixed(5)}%/h beyond absolute threshold`);
+  }
+
+  let predicted: PredictedFunding | null = null;
+  if (predictedRate !== undefined) {
+    const predictedSignal = thresholdSignal(predictedRate, config);
+    predicted = {
+      fundingRate: predictedRate,
+      annualizedRate: annualizeHourlyRate(predictedRate),
+      zScore: 0,
+      signal: predictedSignal,
+      confirmations: predictedSignal === 'NEUTRAL' ? 0 : 1,
+    };
+
+    if (
+      config.predictedConfirmation &&
+      signal !== 'NEUTRAL' &&
+      predictedSignal !== 'NEUTRAL' &&
+      Math.sign(predictedRate) === Math.sign(currentRate)
+    ) {
+      confirmationDetails.push(`Predicted funding ${(predictedRate * 100).toFixed(5)}%/h confirms extreme`);
+    }
+  }
+
+  return {
+    signal,
+    signalSource: 'threshold',
+    estimator: null,
+    zScore: 0,
+    mean: 0,
+    std: 0,
+    confirmations: confirmationDetails.length,
+    confirmationDetails,
+    isFundingReversing: false,
+    edgeScore: 0,
+    winProbability: 0.5,
+    calibrationSamples: 0,
+    probabilitySource: 'formula',
+    confidence,
+    predicted,
+    windows: [],
+    windowAgreement: null,
+  };
+}
+
+/**
+ * Rank signals: strongest level first, then by |z|
+ */
+export function compareSignals(a: Signal, b: Signal): number {
+  const strength = (s: SignalType) =>
+    s.startsWith('ULTRA') ? 3 : s.startsWith('STRONG') ? 2 : s === 'NEUTRAL' ? 0 : 1;
+  const orderDiff = strength(b.signal) - strength(a.signal);
+  if (orderDiff !== 0) return orderDiff;
+  return Math.abs(b.zScore) - Math.abs(a.zScore);
+}
+
+/**
+ * Get signal description
+ */
+export function getSignalDescription(signal: SignalType): string {
+  switch (signal) {
+    case 'ULTRA_LONG': return 'Shorts extremely overleveraged - expect a bounce';
+    case 'STRONG_LONG': return 'Shorts overleveraged - strong reversal expected';
+    case 'LONG': return 'Shorts overleveraged - reversal likely';
+    case 'NEUTRAL': return 'Market balanced - no clear edge';
+    case 'SHORT': return 'Longs overleveraged - reversal likely';
+    case 'STRONG_SHORT': return 'Longs overleveraged - strong reversal expected';
+    case 'ULTRA_SHORT': return 'Longs extremely overleveraged - expect a crash';
+  }
+}
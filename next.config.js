@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // ws has optional native add-ons that break when bundled
+    serverComponentsExternalPackages: ['ws'],
+  },
 }
 
 module.exports = nextConfig
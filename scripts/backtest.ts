@@ -0,0 +1,164 @@
+// Backtest CLI - runs fully offline against CSV/JSON fixtures
+//
+// Usage:
+//   npm run backtest -- fixtures/sample-btc.csv --symbol BTC --capital 5000 --modes LOW,HIGH --lookback 90
+//   npm run backtest -- fixtures/sample-btc.csv --estimator mad
+//   npm run backtest -- fixtures/sample-btc.csv --compare-estimators
+//   npm run backtest -- fixtures/sample-btc.csv --trend-filter off
+//   npm run backtest -- fixtures/sample-btc.csv --sizing volatilityTarget
+//   npm run backtest -- fixtures/sample-btc.csv --windows 24,90,270
+//   npm run backtest -- fixtures/sample-btc.csv --exit-z 0.25 --scale-out-z off --max-hold 72 --trailing 0.02
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runBacktest, compareEstimators, parseBacktestCsv, parseBacktestJson, BacktestPeriod, BacktestReport } from '../lib/backtest';
+import { RiskMode } from '../lib/analysis';
+import { ZScoreEstimator, ZSCORE_ESTIMATORS } from '../lib/estimators';
+import { TrendFilterMode, TREND_FILTER_MODES } from '../lib/strategy';
+import { SizingMethod, SIZING_METHODS } from '../lib/risk';
+import { createExitConfig, exitConfigError, ExitConfig, ExitReason } from '../lib/exits';
+
+function parseArgs(argv: string[]): { file?: string; options: Record<string, string> } {
+  const options: Record<string, string> = {};
+  let file: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        options[arg.slice(2)] = 'true';
+      } else {
+        options[arg.slice(2)] = next;
+        i++;
+      }
+    } else if (!file) {
+      file = arg;
+    }
+  }
+
+  return { file, options };
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+function resultRows(report: BacktestReport, withEstimator: boolean) {
+  return report.results.map(({ riskMode, metrics }) => ({
+    ...(withEstimator && { estimator: report.estimator }),
+    mode: riskMode,
+    trades: metrics.trades,
+    winRate: pct(metrics.winRate),
+    profitFactor: metrics.profitFactor.toFixed(2),
+    return: pct(metrics.totalReturn),
+    maxDrawdown: pct(metrics.maxDrawdown),
+    sharpe: metrics.sharpe.toFixed(2),
+    funding: metrics.fundingPnl.toFixed(2),
+    ending: metrics.endingCapital.toFixed(2),
+  }));
+}
+
+// Exit attribution - one row per risk mode and exit reason
+function exitRows(report: BacktestReport) {
+  return report.results.flatMap(({ riskMode, metrics }) =>
+    (Object.keys(metrics.byExitReason) as ExitReason[]).map(reason => ({
+      mode: riskMode,
+      exit: reason,
+      exits: metrics.byExitReason[reason]!.exits,
+      pnl: metrics.byExitReason[reason]!.pnl.toFixed(2),
+    }))
+  );
+}
+
+// A number, or null for 'off'
+function optionalNumber(value: string): number | null {
+  return value === 'off' ? null : Number(value);
+}
+
+async function main() {
+  const { file, options } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: npm run backtest -- <fixture.csv|fixture.json> [--symbol BTC] [--capital 5000] [--modes LOW,MEDIUM] [--lookback 90] [--fee 0.0005] [--estimator standard|ewma|mad|percentile] [--compare-estimators] [--trend-filter block|downgrade|off] [--sizing fixedStop|volatilityTarget|kelly] [--windows 24,90,270] [--funding-exit on|off] [--exit-z 0.5] [--scale-out-z 1|off] [--max-hold 168|off] [--trailing 0.02|off] [--json]');
+    process.exit(1);
+  }
+
+  const text = await fs.readFile(file, 'utf8');
+  let periods: BacktestPeriod[];
+  let symbol: string | undefined = options.symbol;
+
+  if (file.endsWith('.json')) {
+    const parsed = parseBacktestJson(text);
+    periods = parsed.periods;
+    symbol = symbol || parsed.symbol;
+  } else {
+    periods = parseBacktestCsv(text);
+  }
+
+  // Fall back to the fixture file name, e.g. sample-btc.csv -> BTC
+  const resolvedSymbol = (symbol || path.basename(file).replace(/\.[^.]+$/, '').split('-').pop() || 'UNKNOWN').toUpperCase();
+
+  const estimator = options.estimator as ZScoreEstimator | undefined;
+  if (estimator && !ZSCORE_ESTIMATORS.includes(estimator)) {
+    throw new Error(`Estimator must be one of: ${ZSCORE_ESTIMATORS.join(', ')}`);
+  }
+  const trendFilter = options['trend-filter'] as TrendFilterMode | undefined;
+  if (trendFilter && !TREND_FILTER_MODES.includes(trendFilter)) {
+    throw new Error(`Trend filter must be one of: ${TREND_FILTER_MODES.join(', ')}`);
+  }
+  const sizingMethod = options.sizing as SizingMethod | undefined;
+  if (sizingMethod && !SIZING_METHODS.includes(sizingMethod)) {
+    throw new Error(`Sizing method must be one of: ${SIZING_METHODS.join(', ')}`);
+  }
+
+  const exitOverrides: Partial<ExitConfig> = {
+    ...(options['funding-exit'] && { fundingExit: options['funding-exit'] !== 'off' }),
+    ...(options['exit-z'] && { fundingExitZ: Number(options['exit-z']) }),
+    ...(options['scale-out-z'] && { scaleOutZ: optionalNumber(options['scale-out-z']) }),
+    ...(options['max-hold'] && { maxHoldHours: optionalNumber(options['max-hold']) }),
+    ...(options.trailing && { trailingStopPercent: optionalNumber(options.trailing) }),
+  };
+  const exitError = exitConfigError(exitOverrides);
+  if (exitError) throw new Error(exitError);
+
+  const config = {
+    symbol: resolvedSymbol,
+    exits: createExitConfig(exitOverrides),
+    ...(options.capital && { capital: Number(options.capital) }),
+    ...(options.modes && { riskModes: options.modes.split(',').map(m => m.trim().toUpperCase()) as RiskMode[] }),
+    ...(options.lookback && { lookbackPeriods: Number(options.lookback) }),
+    ...(options.fee && { feeRate: Number(options.fee) }),
+    ...(estimator && { estimator }),
+    ...(trendFilter && { trendFilter }),
+    ...(sizingMethod && { sizingMethod }),
+    ...(options.windows && { windowPeriods: options.windows.split(',').map(w => Number(w.trim())) }),
+  };
+
+  if (options['compare-estimators']) {
+    const reports = compareEstimators(periods, config);
+    if (options.json) {
+      console.log(JSON.stringify(reports, null, 2));
+      return;
+    }
+    console.log(`Estimator comparison ${reports[0].symbol}: ${reports[0].periods} periods, ${reports[0].from} -> ${reports[0].to}`);
+    console.table(reports.flatMap(report => resultRows(report, true)));
+    return;
+  }
+
+  const report = runBacktest(periods, config);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`Backtest ${report.symbol}: ${report.periods} periods, ${report.from} -> ${report.to} (${report.estimator} z-score, trend filter ${report.trendFilter}, ${report.sizingMethod ?? 'profile'} sizing)`);
+  console.table(resultRows(report, false));
+  console.log('Exits by reason:');
+  console.table(exitRows(report));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+// Calibration CLI - fits winProbability/edgeScore from realized outcomes
+//
+// Usage:
+//   npm run calibrate -- fixtures/sample-btc.csv [more fixtures...] --mode MEDIUM [--ledger] [--dry-run]
+//
+// Outcomes come from backtest trades on each fixture and, with --ledger,
+// closed paper trades that recorded the signal they were opened on.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { runBacktest, parseBacktestCsv, parseBacktestJson, BacktestPeriod } from '../lib/backtest';
+import { RiskMode } from '../lib/analysis';
+import { fitCalibration, CalibrationOutcome } from '../lib/calibration';
+import { saveCalibration, getCalibrationPath } from '../lib/calibration-store';
+import { loadLedger } from '../lib/paper-broker';
+
+function parseArgs(argv: string[]): { files: string[]; options: Record<string, string> } {
+  const options: Record<string, string> = {};
+  const files: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith('--')) {
+        options[arg.slice(2)] = 'true';
+      } else {
+        options[arg.slice(2)] = next;
+        i++;
+      }
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { files, options };
+}
+
+async function backtestOutcomes(file: string, riskMode: RiskMode): Promise<CalibrationOutcome[]> {
+  const text = await fs.readFile(file, 'utf8');
+  let periods: BacktestPeriod[];
+  let symbol: string | undefined;
+
+  if (file.endsWith('.json')) {
+    const parsed = parseBacktestJson(text);
+    periods = parsed.periods;
+    symbol = parsed.symbol;
+  } else {
+    periods = parseBacktestCsv(text);
+  }
+
+  const report = runBacktest(periods, {
+    symbol: (symbol || path.basename(file).replace(/\.[^.]+$/, '')).toUpperCase(),
+    riskModes: [riskMode],
+  });
+
+  return report.results[0].trades
+    .filter(t => t.exitReason !== 'END_OF_DATA')
+    .map(t => ({
+      zScore: t.zScore,
+      confirmations: t.confirmations,
+      won: t.pnl > 0,
+      rMultiple: t.rMultiple,
+    }));
+}
+
+async function ledgerOutcomes(): Promise<CalibrationOutcome[]> {
+  const ledger = await loadLedger();
+  return ledger.closedTrades
+    .filter(t => t.entrySignal)
+    .map(t => {
+      const pnl = t.realizedPnl + t.fundingPnl;
+      const signal = t.entrySignal!;
+      return {
+        zScore: signal.zScore,
+        confirmations: signal.confirmations,
+        won: pnl > 0,
+        rMultiple: signal.riskAmount ? pnl / signal.riskAmount : undefined,
+      };
+    });
+}
+
+async function main() {
+  const { files, options } = parseArgs(process.argv.slice(2));
+  const riskMode = (options.mode || 'MEDIUM').toUpperCase() as RiskMode;
+
+  if (files.length === 0 && !options.ledger) {
+    console.error('Usage: npm run calibrate -- <fixture.csv|fixture.json>... [--mode MEDIUM] [--ledger] [--min-samples 50] [--min-bucket 10] [--dry-run]');
+    process.exit(1);
+  }
+
+  const outcomes: CalibrationOutcome[] = [];
+  const sources: string[] = [];
+
+  for (const file of files) {
+    const fileOutcomes = await backtestOutcomes(file, riskMode);
+    console.log(`${file}: ${fileOutcomes.length} backtest trades`);
+    outcomes.push(...fileOutcomes);
+    sources.push(path.basename(file));
+  }
+
+  if (options.ledger) {
+    const paperOutcomes = await ledgerOutcomes();
+    console.log(`Paper ledger: ${paperOutcomes.length} closed trades with signal context`);
+    outcomes.push(...paperOutcomes);
+    sources.push('paper-ledger');
+  }
+
+  const table = fitCalibration(outcomes, {
+    source: `${sources.join(', ')} (${riskMode})`,
+    ...(options['min-samples'] && { minSamples: Number(options['min-samples']) }),
+    ...(options['min-bucket'] && { minBucketSamples: Number(options['min-bucket']) }),
+  });
+
+  console.log(`Fitted ${table.totalSamples} outcomes: P(win) = sigmoid(${table.coefficients.intercept.toFixed(3)} + ${table.coefficients.absZ.toFixed(3)}*|z| + ${table.coefficients.confirmations.toFixed(3)}*confirmations)`);
+  console.table(table.buckets
+    .filter(b => b.samples > 0)
+    .map(b => ({
+      z: `${b.zMin}-${b.zMax ?? '+'}`,
+      confirmations: `${b.confirmationsMin}-${b.confirmationsMax ?? '+'}`,
+      samples: b.samples,
+      empirical: b.empiricalWinRate.toFixed(2),
+      fitted: b.winProbability.toFixed(2),
+      edge: b.edgeScore.toFixed(1),
+    })));
+
+  if (table.totalSamples < table.minSamples) {
+    console.warn(`Only ${table.totalSamples} outcomes (< ${table.minSamples}) - the formula fallback will be used at runtime`);
+  }
+
+  if (options['dry-run']) return;
+
+  await saveCalibration(table);
+  console.log(`Saved calibration table to ${getCalibrationPath()}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+// Mock Kraken Futures WebSocket server
+// Serves the `ticker` and `heartbeat` feeds with random-walk prices and funding
+//
+// Usage:
+//   npm run mock-ws -- [--port 8787] [--interval 1000] [--drop-every 30]
+//   KRAKEN_FUTURES_WS_URL=ws://localhost:8787 npm run dev
+//
+// --drop-every N closes every connection after N seconds to exercise reconnects
+
+import { WebSocketServer, WebSocket } from 'ws';
+import { toKrakenSymbol } from '../lib/kraken';
+import { getWatchlist } from '../lib/instrument-store';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      options[argv[i].slice(2)] = 'true';
+    } else {
+      options[argv[i].slice(2)] = next;
+      i++;
+    }
+  }
+  return options;
+}
+
+const START_PRICES: Record<string, number> = {
+  PF_XBTUSD: 97000,
+  PF_ETHUSD: 3400,
+  PF_SOLUSD: 190,
+  PF_XRPUSD: 2.2,
+  PF_LINKUSD: 22,
+  PF_LTCUSD: 105,
+  PF_DOGEUSD: 0.32,
+  PF_ADAUSD: 0.9,
+  PF_AVAXUSD: 38,
+  PF_MATICUSD: 0.45,
+};
+
+interface MarketState {
+  price: number;
+  open: number;
+  fundingRate: number;    // Relative, per period
+  openInterest: number;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const port = Number(options.port || 8787);
+const interval = Number(options.interval || 1000);
+const dropEvery = options['drop-every'] ? Number(options['drop-every']) * 1000 : 0;
+
+const markets = new Map<string, MarketState>();
+for (const productId of getWatchlist().map(toKrakenSymbol)) {
+  const price = START_PRICES[productId] ?? 100;
+  markets.set(productId, { price, open: price, fundingRate: 0.0001, openInterest: 1000000 });
+}
+
+function tick(productId: string): Record<string, unknown> {
+  const market = markets.get(productId)!;
+  market.price *= 1 + (Math.random() - 0.5) * 0.002;
+  market.fundingRate += (Math.random() - 0.5) * 0.00002;
+  market.openInterest *= 1 + (Math.random() - 0.5) * 0.001;
+
+  const spread = market.price * 0.0001;
+  return {
+    feed: 'ticker',
+    product_id: productId,
+    time: Date.now(),
+    bid: market.price - spread,
+    ask: market.price + spread,
+    bid_size: 1,
+    ask_size: 1,
+    volume: 10000,
+    index: market.price * 0.9999,
+    last: market.price,
+    change: ((market.price - market.open) / market.open) * 100,
+    funding_rate: market.fundingRate * market.price,
+    funding_rate_prediction: market.fundingRate * market.price * 1.1,
+    relative_funding_rate: market.fundingRate,
+    relative_funding_rate_prediction: market.fundingRate * 1.1,
+    suspended: false,
+    tag: 'perpetual',
+    pair: productId.replace('PF_', '').replace('USD', ':USD'),
+    openInterest: market.openInterest,
+    markPrice: market.price,
+  };
+}
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket: WebSocket) => {
+  const products = new Set<string>();
+  let heartbeat = false;
+  console.log('Client connected');
+  socket.send(JSON.stringify({ event: 'info', version: 1 }));
+
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    if (message.event !== 'subscribe') return;
+
+    if (message.feed === 'heartbeat') {
+      heartbeat = true;
+    } else if (message.feed === 'ticker') {
+      for (const productId of message.product_ids || []) {
+        if (markets.has(productId)) products.add(productId);
+      }
+    }
+    socket.send(JSON.stringify({ event: 'subscribed', feed: message.feed, product_ids: message.product_ids }));
+  });
+
+  const timer = setInterval(() => {
+    if (heartbeat) socket.send(JSON.stringify({ feed: 'heartbeat', time: Date.now() }));
+    for (const productId of Array.from(products)) {
+      socket.send(JSON.stringify(tick(productId)));
+    }
+  }, interval);
+
+  const dropTimer = dropEvery > 0
+    ? setTimeout(() => {
+      console.log('Dropping client');
+      socket.terminate();
+    }, dropEvery)
+    : null;
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    if (dropTimer) clearTimeout(dropTimer);
+    console.log('Client disconnected');
+  });
+});
+
+console.log(`Mock Kraken Futures WebSocket on ws://localhost:${port}`);
@@ -0,0 +1,44 @@
+// History sync CLI - appends new funding periods, market snapshots and candles to the local store
+//
+// Usage:
+//   npm run sync-history -- [BTC ETH ...] [--no-binance]
+//
+// Symbols default to the watchlist and must be listed in the instrument registry.
+//
+// Run from cron to keep the store current. Only periods newer than the last
+// stored timestamp are fetched.
+
+import { getInstrumentRegistry, getWatchlist } from '../lib/instrument-store';
+import { getHistoryDir } from '../lib/history-store';
+import { syncHistory } from '../lib/history-sync';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const symbols = args.filter(a => !a.startsWith('--')).map(a => a.toUpperCase());
+  const selected = symbols.length > 0 ? symbols : getWatchlist();
+
+  const { instruments } = await getInstrumentRegistry();
+  const unknown = selected.filter(s => !instruments.some(i => i.symbol === s));
+  if (unknown.length > 0) {
+    console.error(`Unknown symbols: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const results = await syncHistory(selected, { binance: !args.includes('--no-binance') });
+
+  console.table(results.map(r => ({
+    series: r.series,
+    symbol: r.symbol,
+    added: r.added,
+    status: r.error ? `error: ${r.error}` : r.skipped ? 'up to date' : 'synced',
+    last: r.lastTimestamp ?? '-',
+  })));
+  console.log(`History store: ${getHistoryDir()}`);
+
+  if (results.some(r => r.error)) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});